@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseDataAttributes } from '../data-attributes';
+
+function createElement(attributes: Record<string, string>): HTMLElement {
+  const element = document.createElement('pre');
+  for (const [name, value] of Object.entries(attributes)) {
+    element.setAttribute(name, value);
+  }
+  return element;
+}
+
+describe('data-attributes', () => {
+  it('should return no options without data attributes', () => {
+    expect(parseDataAttributes(createElement({}))).toEqual({});
+  });
+
+  it('should parse string and URL attributes', () => {
+    const options = parseDataAttributes(createElement({
+      'data-theme': 'dark',
+      'data-base-url': 'https://example.com/data',
+    }));
+
+    expect(options).toEqual({ theme: 'dark', baseUrl: 'https://example.com/data' });
+  });
+
+  it('should parse manifests given as a URL or a JSON array of paths', () => {
+    expect(parseDataAttributes(createElement({ 'data-manifest': 'files.json' }))).toEqual({ manifest: 'files.json' });
+    expect(parseDataAttributes(createElement({ 'data-manifest': '["a/1.csv", "a/2.csv"]' }))).toEqual({
+      manifest: ['a/1.csv', 'a/2.csv'],
+    });
+  });
+
+  it('should parse boolean attributes', () => {
+    const options = parseDataAttributes(createElement({
+      'data-editable': 'false',
+      'data-show-open-button': '',
+      'data-local-files': 'true',
+    }));
+
+    expect(options).toEqual({ editable: false, showOpenButton: true, localFiles: true });
+  });
+
+  it('should parse numeric attributes', () => {
+    const options = parseDataAttributes(createElement({
+      'data-max-rows': '500',
+      'data-page-size': '25',
+      'data-query-timeout': '0',
+    }));
+
+    expect(options).toEqual({ maxRows: 500, pageSize: 25, queryTimeout: 0 });
+  });
+
+  it('should parse init queries as a JSON array', () => {
+    const options = parseDataAttributes(createElement({
+      'data-init-queries': '["INSTALL spatial", "LOAD spatial"]',
+    }));
+
+    expect(options.initQueries).toEqual(['INSTALL spatial', 'LOAD spatial']);
+  });
+
+  it('should parse init queries as semicolon-separated SQL', () => {
+    const options = parseDataAttributes(createElement({
+      'data-init-queries': "INSTALL spatial; LOAD spatial; SET s = 'a;b';",
+    }));
+
+    expect(options.initQueries).toEqual(['INSTALL spatial', 'LOAD spatial', "SET s = 'a;b'"]);
+  });
+
+  it('should parse setup queries', () => {
+    const options = parseDataAttributes(createElement({
+      'data-setup-queries': 'CREATE TABLE t (id INT); INSERT INTO t VALUES (1)',
+    }));
+
+    expect(options.setupQueries).toEqual(['CREATE TABLE t (id INT)', 'INSERT INTO t VALUES (1)']);
+  });
+
+  it('should parse autorun modes', () => {
+    expect(parseDataAttributes(createElement({ 'data-autorun': 'visible' })).autorun).toBe('visible');
+    expect(parseDataAttributes(createElement({ 'data-autorun': '' })).autorun).toBe('load');
+    expect(parseDataAttributes(createElement({ 'data-autorun': 'false' })).autorun).toBe(false);
+  });
+
+  it('should parse notebook attributes', () => {
+    const options = parseDataAttributes(createElement({
+      'data-notebook': 'intro',
+      'data-cell-order': '3',
+    }));
+
+    expect(options).toEqual({ notebook: 'intro', cellOrder: 3 });
+  });
+
+  it('should parse isolation attributes', () => {
+    const options = parseDataAttributes(createElement({
+      'data-isolation': 'embed',
+      'data-private-database': '',
+    }));
+
+    expect(options).toEqual({ isolation: 'embed', privateDatabase: true });
+  });
+
+  it('should parse parameter definitions', () => {
+    const options = parseDataAttributes(createElement({
+      'data-parameters': '{"min_fare": {"type": "number", "value": 10}, "year": {"options": [2023, 2024]}}',
+    }));
+
+    expect(options).toEqual({
+      parameters: {
+        min_fare: { type: 'number', value: 10 },
+        year: { options: [2023, 2024] },
+      },
+    });
+  });
+
+  it('should ignore invalid parameter definitions', () => {
+    const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(parseDataAttributes(createElement({ 'data-parameters': '{"x": {"type": "color"}}' }))).toEqual({});
+    expect(parseDataAttributes(createElement({ 'data-parameters': '[1]' }))).toEqual({});
+    expect(consoleWarnSpy).toHaveBeenCalledTimes(2);
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should ignore invalid values with a warning', () => {
+    const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const options = parseDataAttributes(createElement({
+      'data-editable': 'maybe',
+      'data-max-rows': '-5',
+      'data-page-size': '0',
+      'data-init-queries': '[1, 2]',
+    }));
+
+    expect(options).toEqual({});
+    expect(consoleWarnSpy).toHaveBeenCalledTimes(4);
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      'SQLWorkbench: ignoring invalid data-editable="maybe" (expected "true" or "false")'
+    );
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should treat empty values as absent', () => {
+    const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const options = parseDataAttributes(createElement({
+      'data-theme': '',
+      'data-base-url': ' ',
+      'data-notebook': '',
+    }));
+
+    expect(options).toEqual({});
+    expect(consoleWarnSpy).not.toHaveBeenCalled();
+    consoleWarnSpy.mockRestore();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { bundlesFromBaseUrl, resolveBundles, isSameOrigin } from '../duckdb-bundles';
+
+describe('duckdb-bundles', () => {
+  describe('bundlesFromBaseUrl', () => {
+    it('should use the file names of the package dist directory', () => {
+      const bundles = bundlesFromBaseUrl('https://example.com/duckdb');
+
+      expect(bundles.mvp).toEqual({
+        mainModule: 'https://example.com/duckdb/duckdb-mvp.wasm',
+        mainWorker: 'https://example.com/duckdb/duckdb-browser-mvp.worker.js',
+      });
+      expect(bundles.eh?.mainModule).toBe('https://example.com/duckdb/duckdb-eh.wasm');
+      expect(bundles.coi?.pthreadWorker).toBe('https://example.com/duckdb/duckdb-browser-coi.pthread.worker.js');
+    });
+  });
+
+  describe('resolveBundles', () => {
+    it('should load files from the CDN by default', () => {
+      const resolved = resolveBundles(null, 'https://cdn.example.com/npm/@duckdb/duckdb-wasm', '1.30.0');
+
+      expect(resolved.selfHosted).toBe(false);
+      expect(resolved.module).toBeNull();
+      expect(resolved.bundles.mvp.mainModule).toBe(
+        'https://cdn.example.com/npm/@duckdb/duckdb-wasm@1.30.0/dist/duckdb-mvp.wasm'
+      );
+      expect(resolved.bundles.eh?.mainModule).toBe(
+        'https://cdn.example.com/npm/@duckdb/duckdb-wasm@1.30.0/dist/duckdb-eh.wasm'
+      );
+      expect(resolved.bundles.coi).toBeUndefined();
+    });
+
+    it('should resolve a self-hosted directory against the page', () => {
+      const resolved = resolveBundles('/assets/duckdb/', 'https://cdn.example.com', '1.30.0');
+
+      expect(resolved.selfHosted).toBe(true);
+      expect(resolved.bundles.eh?.mainWorker).toBe(
+        `${window.location.origin}/assets/duckdb/duckdb-browser-eh.worker.js`
+      );
+    });
+
+    it('should resolve individually configured files', () => {
+      const resolved = resolveBundles(
+        {
+          module: '/assets/duckdb.mjs',
+          mvp: { mainModule: '/assets/mvp.wasm', mainWorker: '/assets/mvp.worker.js' },
+        },
+        'https://cdn.example.com',
+        '1.30.0'
+      );
+
+      expect(resolved.module).toBe(`${window.location.origin}/assets/duckdb.mjs`);
+      expect(resolved.bundles.mvp.mainModule).toBe(`${window.location.origin}/assets/mvp.wasm`);
+      expect(resolved.bundles.eh).toBeUndefined();
+      expect(resolved.bundles.coi).toBeUndefined();
+    });
+  });
+
+  describe('isSameOrigin', () => {
+    it('should compare URLs with the page origin', () => {
+      expect(isSameOrigin('/assets/worker.js')).toBe(true);
+      expect(isSameOrigin(`${window.location.origin}/worker.js`)).toBe(true);
+      expect(isSameOrigin('https://cdn.example.com/worker.js')).toBe(false);
+    });
+  });
+});
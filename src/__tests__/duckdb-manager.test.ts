@@ -1,18 +1,40 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { duckDBManager } from '../duckdb-manager';
+import { configureLogger } from '../logger';
+import { createMockArrowReader } from './test-utils';
+import { loadFromIndexedDB, saveToIndexedDB, removeFromOPFS } from '../persistence';
+
+vi.mock('../persistence', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../persistence')>()),
+  loadFromIndexedDB: vi.fn(),
+  saveToIndexedDB: vi.fn(),
+  removeFromIndexedDB: vi.fn(),
+  removeFromOPFS: vi.fn(),
+}));
 
 describe('duckdb-manager', () => {
   // Mock DuckDB objects
   const mockConnection = {
     query: vi.fn(),
+    send: vi.fn(),
+    prepare: vi.fn(),
+    insertJSONFromPath: vi.fn(),
+    insertArrowFromIPCStream: vi.fn(),
+    cancelSent: vi.fn(),
     close: vi.fn(),
   };
 
   const mockDb = {
     connect: vi.fn(() => Promise.resolve(mockConnection)),
     registerFileURL: vi.fn(() => Promise.resolve()),
+    registerFileHandle: vi.fn(() => Promise.resolve()),
+    registerFileBuffer: vi.fn(() => Promise.resolve()),
+    registerFileText: vi.fn(() => Promise.resolve()),
     terminate: vi.fn(() => Promise.resolve()),
     instantiate: vi.fn(() => Promise.resolve()),
+    open: vi.fn(() => Promise.resolve()),
+    copyFileToBuffer: vi.fn(),
+    dropFile: vi.fn(() => Promise.resolve()),
   };
 
   const mockDuckDBModule = {
@@ -43,8 +65,20 @@ describe('duckdb-manager', () => {
     (duckDBManager as any).db = null;
     (duckDBManager as any).connection = null;
     (duckDBManager as any).initPromise = null;
-    (duckDBManager as any).registeredFiles = new Set();
+    (duckDBManager as any).registeredFiles = new Map();
+    (duckDBManager as any).localFiles = new Set();
     (duckDBManager as any).duckdbModule = null;
+    (duckDBManager as any).activeQueries = new Map();
+    (duckDBManager as any).connectionQueues = new WeakMap();
+    (duckDBManager as any).sessions = new Map();
+    (duckDBManager as any).sessionOwners = new Map();
+    (duckDBManager as any).progress = null;
+    (duckDBManager as any).initQueries = [];
+    (duckDBManager as any).initQueriesExecuted = false;
+    (duckDBManager as any).initQueriesPromise = null;
+    (duckDBManager as any).storage = null;
+    (duckDBManager as any).mainDatabase = 'memory';
+    (duckDBManager as any).persistTimer = null;
     // Reset config to defaults
     (duckDBManager as any).config = {
       version: '1.31.1-dev1.0',
@@ -117,14 +151,16 @@ describe('duckdb-manager', () => {
 
     it('should use pre-loaded window.duckdb if available', async () => {
       (window as any).duckdb = mockDuckDBModule;
+      configureLogger('info');
 
-      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const consoleInfoSpy = vi.spyOn(console, 'info').mockImplementation(() => {});
       const result = await (duckDBManager as any).loadDuckDBModule();
 
-      expect(consoleLogSpy).toHaveBeenCalledWith('Using pre-loaded DuckDB from window.duckdb');
+      expect(consoleInfoSpy).toHaveBeenCalledWith('Using pre-loaded DuckDB from window.duckdb');
       expect(result).toBe(mockDuckDBModule);
 
-      consoleLogSpy.mockRestore();
+      consoleInfoSpy.mockRestore();
+      configureLogger('warn');
       delete (window as any).duckdb;
     });
 
@@ -139,6 +175,145 @@ describe('duckdb-manager', () => {
     });
   });
 
+  describe('self-hosted bundles', () => {
+    beforeEach(() => {
+      (duckDBManager as any).duckdbModule = mockDuckDBModule;
+    });
+
+    it('should start same-origin workers directly', async () => {
+      duckDBManager.configure({ bundles: '/assets/duckdb/' });
+      mockDuckDBModule.selectBundle.mockImplementationOnce((bundles: any) => Promise.resolve(bundles.coi));
+
+      await (duckDBManager as any).doInitialize();
+
+      const base = `${window.location.origin}/assets/duckdb/`;
+      expect(mockDuckDBModule.selectBundle).toHaveBeenCalledWith(expect.objectContaining({
+        mvp: { mainModule: `${base}duckdb-mvp.wasm`, mainWorker: `${base}duckdb-browser-mvp.worker.js` },
+      }));
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(global.Worker).toHaveBeenCalledWith(`${base}duckdb-browser-coi.worker.js`);
+      expect(mockDb.instantiate).toHaveBeenCalledWith(
+        `${base}duckdb-coi.wasm`,
+        `${base}duckdb-browser-coi.pthread.worker.js`,
+        expect.any(Function)
+      );
+    });
+
+    it('should load CDN files for the configured CDN', async () => {
+      duckDBManager.configure({ cdn: 'https://mirror.example.com/duckdb-wasm', version: '1.30.0' });
+      mockDuckDBModule.selectBundle.mockImplementationOnce((bundles: any) => Promise.resolve(bundles.mvp));
+
+      await (duckDBManager as any).doInitialize();
+
+      expect(mockDuckDBModule.selectBundle).toHaveBeenCalledWith(expect.objectContaining({
+        mvp: {
+          mainModule: 'https://mirror.example.com/duckdb-wasm@1.30.0/dist/duckdb-mvp.wasm',
+          mainWorker: 'https://mirror.example.com/duckdb-wasm@1.30.0/dist/duckdb-browser-mvp.worker.js',
+        },
+      }));
+      // Cross-origin workers are loaded through a blob URL
+      expect(global.Worker).toHaveBeenCalledWith('blob:mock-url');
+    });
+
+    it('should not fall back to the CDN when a self-hosted module fails to load', async () => {
+      (duckDBManager as any).duckdbModule = null;
+      duckDBManager.configure({
+        bundles: {
+          module: 'https://example.invalid/duckdb.mjs',
+          mvp: { mainModule: '/mvp.wasm', mainWorker: '/mvp.worker.js' },
+        },
+      });
+
+      await expect((duckDBManager as any).loadDuckDBModule()).rejects.toThrow(
+        'Failed to load DuckDB from https://example.invalid/duckdb.mjs'
+      );
+    });
+  });
+
+  describe('initialization progress', () => {
+    let stages: unknown[];
+    let unsubscribe: () => void;
+
+    beforeEach(() => {
+      (duckDBManager as any).duckdbModule = mockDuckDBModule;
+      mockDuckDBModule.selectBundle.mockImplementation((bundles: any) => Promise.resolve(bundles.mvp));
+      stages = [];
+      unsubscribe = duckDBManager.onProgress((progress) => stages.push(progress));
+    });
+
+    afterEach(() => {
+      unsubscribe();
+    });
+
+    it('should report each initialization stage', async () => {
+      mockDb.instantiate.mockImplementationOnce(((_module: string, _pthread: string, onProgress: any) => {
+        onProgress({ bytesLoaded: 512, bytesTotal: 1024 });
+        return Promise.resolve();
+      }) as any);
+
+      expect(duckDBManager.getProgress()).toBeNull();
+      await (duckDBManager as any).doInitialize();
+
+      expect(stages).toEqual([
+        { stage: 'loading-module' },
+        { stage: 'fetching-worker' },
+        { stage: 'instantiating' },
+        { stage: 'instantiating', loaded: 512, total: 1024 },
+        { stage: 'ready' },
+      ]);
+      expect(duckDBManager.getProgress()).toEqual({ stage: 'ready' });
+    });
+
+    it('should report the bytes of a streamed worker download', async () => {
+      const chunks = [new Uint8Array(300), new Uint8Array(200)];
+      const reader = {
+        read: vi.fn(() => {
+          const value = chunks.shift();
+          return Promise.resolve(value ? { done: false, value } : { done: true, value: undefined });
+        }),
+      };
+      global.fetch = vi.fn(() =>
+        Promise.resolve({
+          ok: true,
+          headers: { get: (name: string) => (name === 'content-length' ? '500' : null) },
+          body: { getReader: () => reader },
+        })
+      ) as any;
+
+      await (duckDBManager as any).doInitialize();
+
+      expect(stages).toContainEqual({ stage: 'fetching-worker', loaded: 300, total: 500 });
+      expect(stages).toContainEqual({ stage: 'fetching-worker', loaded: 500, total: 500 });
+      expect(global.Worker).toHaveBeenCalledWith('blob:mock-url');
+    });
+
+    it('should report init queries before becoming ready', async () => {
+      mockConnection.query.mockResolvedValue(undefined);
+      duckDBManager.configureInitQueries(['INSTALL spatial', 'LOAD spatial']);
+
+      await duckDBManager.preload();
+
+      expect(mockConnection.query).toHaveBeenCalledTimes(2);
+      expect(stages.slice(-3)).toEqual([
+        { stage: 'init-queries', loaded: 0, total: 2 },
+        { stage: 'init-queries', loaded: 1, total: 2 },
+        { stage: 'ready' },
+      ]);
+      // The instantiation stage is not followed by 'ready' while init queries are pending
+      expect(stages.filter((progress: any) => progress.stage === 'ready')).toHaveLength(1);
+    });
+
+    it('should reset the progress when initialization fails', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      global.fetch = vi.fn(() => Promise.reject(new Error('Network error'))) as any;
+
+      await expect((duckDBManager as any).doInitialize()).rejects.toThrow();
+
+      expect(duckDBManager.getProgress()).toBeNull();
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
   describe('registerFile', () => {
     beforeEach(() => {
       (duckDBManager as any).db = mockDb;
@@ -163,6 +338,26 @@ describe('duckdb-manager', () => {
       expect(mockDb.registerFileURL).toHaveBeenCalledTimes(1);
     });
 
+    it('should replace a file registered under the same name with another URL', async () => {
+      await duckDBManager.registerFile('data.parquet', 'https://a.example.com/data.parquet');
+      await duckDBManager.registerFile('data.parquet', 'https://b.example.com/data.parquet');
+
+      expect(mockDb.dropFile).toHaveBeenCalledWith('data.parquet');
+      expect(mockDb.registerFileURL).toHaveBeenLastCalledWith(
+        'data.parquet',
+        'https://b.example.com/data.parquet',
+        0,
+        false
+      );
+    });
+
+    it('should register the same URL under different names', async () => {
+      await duckDBManager.registerFile('a/data.parquet', 'https://example.com/data.parquet');
+      await duckDBManager.registerFile('b/data.parquet', 'https://example.com/data.parquet');
+
+      expect(mockDb.registerFileURL).toHaveBeenCalledTimes(2);
+    });
+
     it('should register multiple different files', async () => {
       await duckDBManager.registerFile('data1.parquet', 'https://example.com/data1.parquet');
       await duckDBManager.registerFile('data2.parquet', 'https://example.com/data2.parquet');
@@ -180,13 +375,134 @@ describe('duckdb-manager', () => {
     });
   });
 
+  describe('registerLocalFile', () => {
+    beforeEach(() => {
+      (duckDBManager as any).db = mockDb;
+      (duckDBManager as any).connection = mockConnection;
+    });
+
+    it('should register files through a browser file handle', async () => {
+      const file = new File(['id\n1\n'], 'trips.csv', { type: 'text/csv' });
+
+      await duckDBManager.registerLocalFile('trips.csv', file);
+
+      expect(mockDb.registerFileHandle).toHaveBeenCalledWith('trips.csv', file, 2, true);
+      expect(duckDBManager.getLocalFiles()).toEqual(['trips.csv']);
+    });
+
+    it('should register buffers', async () => {
+      const buffer = new Uint8Array([1, 2, 3]);
+
+      await duckDBManager.registerLocalFile('data.parquet', buffer);
+
+      expect(mockDb.registerFileBuffer).toHaveBeenCalledWith('data.parquet', buffer);
+    });
+
+    it('should replace a file registered under the same name', async () => {
+      await duckDBManager.registerLocalFile('trips.csv', new File(['a'], 'trips.csv'));
+      await duckDBManager.registerLocalFile('trips.csv', new File(['b'], 'trips.csv'));
+
+      expect(mockDb.dropFile).toHaveBeenCalledWith('trips.csv');
+      expect(mockDb.registerFileHandle).toHaveBeenCalledTimes(2);
+      expect(duckDBManager.getLocalFiles()).toEqual(['trips.csv']);
+    });
+
+    it('should not replace local files with remote files of the same name', async () => {
+      await duckDBManager.registerLocalFile('trips.csv', new File(['a'], 'trips.csv'));
+
+      await duckDBManager.registerFile('trips.csv', 'https://example.com/trips.csv');
+
+      expect(mockDb.registerFileURL).not.toHaveBeenCalled();
+    });
+
+    it('should report registration errors', async () => {
+      mockDb.registerFileHandle.mockRejectedValueOnce(new Error('Permission denied'));
+
+      await expect(duckDBManager.registerLocalFile('trips.csv', new File([''], 'trips.csv'))).rejects.toThrow(
+        'Failed to register file trips.csv: Permission denied'
+      );
+      expect(duckDBManager.getLocalFiles()).toEqual([]);
+    });
+
+    it('should forget local files on close', async () => {
+      await duckDBManager.registerLocalFile('trips.csv', new File(['a'], 'trips.csv'));
+
+      await duckDBManager.close();
+
+      expect(duckDBManager.getLocalFiles()).toEqual([]);
+    });
+  });
+
+  describe('registerTable', () => {
+    beforeEach(() => {
+      (duckDBManager as any).db = mockDb;
+      (duckDBManager as any).connection = mockConnection;
+    });
+
+    it('should insert rows through a temporary JSON file', async () => {
+      const rows = [{ id: 1, name: 'Alice' }, { id: 2, name: 'Bob' }];
+
+      await duckDBManager.registerTable('users', rows);
+
+      expect(mockConnection.query).toHaveBeenCalledWith('DROP TABLE IF EXISTS "users"');
+      const [fileName, text] = mockDb.registerFileText.mock.calls[0] as unknown as [string, string];
+      expect(JSON.parse(text)).toEqual(rows);
+      expect(mockConnection.insertJSONFromPath).toHaveBeenCalledWith(fileName, { name: 'users', create: true });
+      expect(mockDb.dropFile).toHaveBeenCalledWith(fileName);
+    });
+
+    it('should insert objects of arrays as columns', async () => {
+      await duckDBManager.registerTable('scores', { player: ['a', 'b'], score: [3, 5] });
+
+      expect(mockConnection.insertJSONFromPath).toHaveBeenCalledWith(expect.any(String), {
+        name: 'scores',
+        create: true,
+        shape: 'column-object',
+      });
+    });
+
+    it('should pass JSON text through unchanged', async () => {
+      await duckDBManager.registerTable('api', '[{"x": 1}]');
+
+      expect(mockDb.registerFileText).toHaveBeenCalledWith(expect.any(String), '[{"x": 1}]');
+    });
+
+    it('should insert Arrow IPC streams directly', async () => {
+      const buffer = new Uint8Array([1, 2, 3]).buffer;
+
+      await duckDBManager.registerTable('my "table"', buffer);
+
+      expect(mockConnection.query).toHaveBeenCalledWith('DROP TABLE IF EXISTS "my ""table"""');
+      expect(mockConnection.insertArrowFromIPCStream).toHaveBeenCalledWith(new Uint8Array([1, 2, 3]), {
+        name: 'my "table"',
+        create: true,
+      });
+      expect(mockDb.registerFileText).not.toHaveBeenCalled();
+    });
+
+    it('should reject data that does not match the format', async () => {
+      await expect(duckDBManager.registerTable('t', [{ x: 1 }], { format: 'arrow' })).rejects.toThrow(
+        'Failed to register table t: Arrow data must be an IPC stream (Uint8Array or ArrayBuffer)'
+      );
+    });
+
+    it('should drop the temporary file when the insert fails', async () => {
+      mockConnection.insertJSONFromPath.mockRejectedValueOnce(new Error('Invalid JSON'));
+
+      await expect(duckDBManager.registerTable('t', 'not json')).rejects.toThrow(
+        'Failed to register table t: Invalid JSON'
+      );
+      expect(mockDb.dropFile).toHaveBeenCalled();
+    });
+  });
+
   describe('query', () => {
     beforeEach(() => {
       (duckDBManager as any).db = mockDb;
       (duckDBManager as any).connection = mockConnection;
 
       // Mock query result in Arrow format
-      mockConnection.query.mockResolvedValue({
+      mockConnection.send.mockResolvedValue(createMockArrowReader({
         schema: {
           fields: [
             { name: 'id', type: { toString: () => 'Int32' } },
@@ -204,13 +520,13 @@ describe('duckdb-manager', () => {
           }
           return null;
         },
-      });
+      }));
     });
 
     it('should execute query and return results', async () => {
       const result = await duckDBManager.query('SELECT * FROM users');
 
-      expect(mockConnection.query).toHaveBeenCalledWith('SELECT * FROM users');
+      expect(mockConnection.send).toHaveBeenCalledWith('SELECT * FROM users', true);
       expect(result.columns).toEqual(['id', 'name']);
       expect(result.rows).toEqual([
         [1, 'Alice'],
@@ -220,6 +536,30 @@ describe('duckdb-manager', () => {
       expect(result.executionTime).toBeGreaterThan(0);
     });
 
+    it('should convert values and report column types', async () => {
+      mockConnection.send.mockResolvedValueOnce(createMockArrowReader({
+        schema: {
+          fields: [
+            { name: 'big', type: { typeId: 2, bitWidth: 64, isSigned: true, toString: () => 'Int64' } },
+            { name: 'day', type: { typeId: 8, unit: 0, toString: () => 'Date32<DAY>' } },
+          ],
+        },
+        numRows: 1,
+        numCols: 2,
+        getChildAt: (index: number) => ({
+          get: () => (index === 0 ? 42n : Date.UTC(2024, 0, 15)),
+        }),
+      }));
+
+      const result = await duckDBManager.query('SELECT big, day FROM t');
+
+      expect(result.rows).toEqual([[42, new Date(Date.UTC(2024, 0, 15))]]);
+      expect(result.columnTypes).toEqual([
+        { name: 'big', type: 'BIGINT', kind: 'integer' },
+        { name: 'day', type: 'DATE', kind: 'date' },
+      ]);
+    });
+
     it('should measure execution time', async () => {
       const result = await duckDBManager.query('SELECT 1');
 
@@ -236,7 +576,7 @@ describe('duckdb-manager', () => {
     });
 
     it('should handle query execution errors', async () => {
-      mockConnection.query.mockRejectedValueOnce(new Error('Syntax error'));
+      mockConnection.send.mockRejectedValueOnce(new Error('Syntax error'));
 
       await expect(duckDBManager.query('SELECT * FROM invalid')).rejects.toThrow(
         'Query execution failed: Syntax error'
@@ -244,7 +584,7 @@ describe('duckdb-manager', () => {
     });
 
     it('should handle null values in results', async () => {
-      mockConnection.query.mockResolvedValueOnce({
+      mockConnection.send.mockResolvedValueOnce(createMockArrowReader({
         schema: {
           fields: [{ name: 'value', type: { toString: () => 'Int32' } }],
         },
@@ -253,7 +593,7 @@ describe('duckdb-manager', () => {
         getChildAt: () => ({
           get: () => null,
         }),
-      });
+      }));
 
       const result = await duckDBManager.query('SELECT NULL AS value');
 
@@ -261,27 +601,470 @@ describe('duckdb-manager', () => {
     });
 
     it('should handle empty result sets', async () => {
-      mockConnection.query.mockResolvedValueOnce({
+      mockConnection.send.mockResolvedValueOnce(createMockArrowReader({
         schema: {
           fields: [{ name: 'id', type: { toString: () => 'Int32' } }],
         },
         numRows: 0,
         numCols: 1,
         getChildAt: () => ({ get: () => null }),
-      });
+      }));
 
       const result = await duckDBManager.query('SELECT * FROM users WHERE false');
 
       expect(result.rows).toEqual([]);
       expect(result.rowCount).toBe(0);
     });
+
+    it('should collect rows from multiple record batches', async () => {
+      const batch = (values: number[]) => ({
+        numRows: values.length,
+        numCols: 1,
+        getChildAt: () => ({ get: (i: number) => values[i] }),
+      });
+      mockConnection.send.mockResolvedValueOnce({
+        schema: { fields: [{ name: 'n', type: { toString: () => 'Int32' } }] },
+        async *[Symbol.asyncIterator]() {
+          yield batch([1, 2]);
+          yield batch([3]);
+        },
+      });
+
+      const result = await duckDBManager.query('SELECT * FROM range(1, 4)');
+
+      expect(result.rows).toEqual([[1], [2], [3]]);
+      expect(result.rowCount).toBe(3);
+    });
+
+    it('should stop reading the result once maxRows rows have arrived', async () => {
+      const batch = (values: number[]) => ({
+        numRows: values.length,
+        numCols: 1,
+        getChildAt: () => ({ get: (i: number) => values[i] }),
+      });
+      const read = vi.fn();
+      mockConnection.send.mockResolvedValueOnce({
+        schema: { fields: [{ name: 'n', type: { toString: () => 'Int32' } }] },
+        async *[Symbol.asyncIterator]() {
+          for (const values of [[1, 2, 3], [4, 5, 6], [7, 8]]) {
+            read(values);
+            yield batch(values);
+          }
+        },
+      });
+
+      const result = await duckDBManager.query('SELECT * FROM range(1, 9)', { maxRows: 4 });
+
+      expect(result.rows).toEqual([[1], [2], [3], [4]]);
+      expect(result.rowCount).toBe(4);
+      expect(result.truncated).toBe(true);
+      expect(read).toHaveBeenCalledTimes(2);
+      expect(mockConnection.cancelSent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not report results with exactly maxRows rows as truncated', async () => {
+      const batch = (values: number[]) => ({
+        numRows: values.length,
+        numCols: 1,
+        getChildAt: () => ({ get: (i: number) => values[i] }),
+      });
+      mockConnection.send.mockResolvedValueOnce({
+        schema: { fields: [{ name: 'n', type: { toString: () => 'Int32' } }] },
+        async *[Symbol.asyncIterator]() {
+          yield batch([1, 2]);
+          yield batch([3, 4]);
+        },
+      });
+
+      const result = await duckDBManager.query('SELECT * FROM range(1, 5)', { maxRows: 4 });
+
+      expect(result.rowCount).toBe(4);
+      expect(result.truncated).toBe(false);
+      expect(mockConnection.cancelSent).not.toHaveBeenCalled();
+    });
+
+    it('should materialize all rows when maxRows is 0', async () => {
+      const result = await duckDBManager.query('SELECT * FROM users', { maxRows: 0 });
+
+      expect(result.rows).toHaveLength(2);
+    });
+
+    it('should bind parameters through a prepared statement', async () => {
+      const statement = {
+        send: vi.fn(() => mockConnection.send()),
+        close: vi.fn(() => Promise.resolve()),
+      };
+      mockConnection.prepare.mockResolvedValueOnce(statement);
+
+      const result = await duckDBManager.query('SELECT * FROM users WHERE id > $1 AND name = $2', {
+        params: [0, 'Alice'],
+      });
+
+      expect(mockConnection.prepare).toHaveBeenCalledWith('SELECT * FROM users WHERE id > $1 AND name = $2');
+      expect(statement.send).toHaveBeenCalledWith(0, 'Alice');
+      expect(statement.close).toHaveBeenCalled();
+      expect(result.rows).toHaveLength(2);
+    });
+
+    it('should close the prepared statement when the query fails', async () => {
+      const statement = {
+        send: vi.fn(() => Promise.reject(new Error('Conversion Error'))),
+        close: vi.fn(() => Promise.resolve()),
+      };
+      mockConnection.prepare.mockResolvedValueOnce(statement);
+
+      await expect(duckDBManager.query('SELECT $1::INT', { params: ['x'] })).rejects.toThrow(
+        'Query execution failed: Conversion Error'
+      );
+      expect(statement.close).toHaveBeenCalled();
+    });
+  });
+
+  describe('concurrent queries', () => {
+    beforeEach(() => {
+      (duckDBManager as any).db = mockDb;
+      (duckDBManager as any).connection = mockConnection;
+      (duckDBManager as any).initQueriesExecuted = true;
+    });
+
+    it('should not start a query on the shared connection while another one streams', async () => {
+      const events: string[] = [];
+      let releaseBatch: () => void = () => undefined;
+      const batchReleased = new Promise<void>((resolve) => { releaseBatch = resolve; });
+
+      mockConnection.send.mockImplementation(async (sql: string) => {
+        events.push(`send ${sql}`);
+        return {
+          schema: { fields: [{ name: 'n', type: { toString: () => 'Int32' } }] },
+          async *[Symbol.asyncIterator]() {
+            if (sql === 'SELECT 1') await batchReleased;
+            events.push(`batch ${sql}`);
+            yield { numRows: 1, numCols: 1, getChildAt: () => ({ get: () => sql }) };
+          },
+        };
+      });
+
+      const first = duckDBManager.query('SELECT 1');
+      const second = duckDBManager.query('SELECT 2');
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      // The second query waits until the first result has been read
+      expect(events).toEqual(['send SELECT 1']);
+      releaseBatch();
+
+      expect((await first).rows).toEqual([['SELECT 1']]);
+      expect((await second).rows).toEqual([['SELECT 2']]);
+      expect(events).toEqual(['send SELECT 1', 'batch SELECT 1', 'send SELECT 2', 'batch SELECT 2']);
+    });
+
+    it('should run Parquet exports after the running query', async () => {
+      let releaseSend: () => void = () => undefined;
+      mockConnection.send.mockImplementationOnce(() => new Promise((resolve) => {
+        releaseSend = () => resolve(createMockArrowReader({ schema: { fields: [] }, numRows: 0, numCols: 0, getChildAt: () => null }));
+      }));
+      mockConnection.query.mockResolvedValue(undefined);
+      mockDb.copyFileToBuffer.mockResolvedValue(new Uint8Array([1]));
+
+      const running = duckDBManager.query('SELECT 1');
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const exported = duckDBManager.exportParquet('SELECT 2');
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(mockConnection.query).not.toHaveBeenCalled();
+      releaseSend();
+      await running;
+      await exported;
+      expect(mockConnection.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('cancel', () => {
+    beforeEach(() => {
+      (duckDBManager as any).db = mockDb;
+      (duckDBManager as any).connection = mockConnection;
+      (duckDBManager as any).initQueriesExecuted = true;
+    });
+
+    it('should return false when no query is running', async () => {
+      await expect(duckDBManager.cancel()).resolves.toBe(false);
+      expect(mockConnection.cancelSent).not.toHaveBeenCalled();
+    });
+
+    it('should interrupt the pending query', async () => {
+      let rejectSend: ((error: Error) => void) | null = null;
+      mockConnection.send.mockImplementationOnce(
+        () => new Promise((_, reject) => { rejectSend = reject; })
+      );
+      mockConnection.cancelSent.mockImplementationOnce(async () => {
+        rejectSend?.(new Error('query was interrupted'));
+        return true;
+      });
+
+      const queryPromise = duckDBManager.query('SELECT * FROM range(100000000)');
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      await expect(duckDBManager.cancel()).resolves.toBe(true);
+      await expect(queryPromise).rejects.toThrow('Query was cancelled');
+      expect(mockConnection.cancelSent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop reading batches after cancellation', async () => {
+      let batchesRead = 0;
+      mockConnection.send.mockResolvedValueOnce({
+        schema: { fields: [{ name: 'n', type: { toString: () => 'Int32' } }] },
+        async *[Symbol.asyncIterator]() {
+          for (let i = 0; i < 10; i++) {
+            batchesRead++;
+            if (i === 1) {
+              await duckDBManager.cancel();
+            }
+            yield { numRows: 1, numCols: 1, getChildAt: () => ({ get: () => i }) };
+          }
+        },
+      });
+
+      await expect(duckDBManager.query('SELECT 1')).rejects.toThrow('Query was cancelled');
+      expect(batchesRead).toBe(2);
+    });
+
+    it('should cancel a query through its handle before it is sent', async () => {
+      let finishFirst: () => void = () => undefined;
+      mockConnection.send.mockImplementationOnce(() => new Promise((resolve) => {
+        finishFirst = () => resolve(createMockArrowReader({ schema: { fields: [] }, numRows: 0, numCols: 0, getChildAt: () => null }));
+      }));
+
+      const first = duckDBManager.query('SELECT 1');
+      const second = duckDBManager.query('SELECT 2');
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      await expect(second.cancel()).resolves.toBe(true);
+      finishFirst();
+
+      await expect(first).resolves.toMatchObject({ rowCount: 0 });
+      await expect(second).rejects.toThrow('Query was cancelled');
+      expect(mockConnection.send).toHaveBeenCalledTimes(1);
+      expect(mockConnection.cancelSent).not.toHaveBeenCalled();
+      await expect(first.cancel()).resolves.toBe(false);
+    });
+
+    it('should not affect subsequent queries', async () => {
+      mockConnection.send.mockResolvedValue(createMockArrowReader({
+        schema: { fields: [{ name: 'n', type: { toString: () => 'Int32' } }] },
+        numRows: 1,
+        numCols: 1,
+        getChildAt: () => ({ get: () => 1 }),
+      }));
+
+      await duckDBManager.cancel();
+      const result = await duckDBManager.query('SELECT 1');
+
+      expect(result.rows).toEqual([[1]]);
+    });
+  });
+
+  describe('exportParquet', () => {
+    beforeEach(() => {
+      (duckDBManager as any).db = mockDb;
+      (duckDBManager as any).connection = mockConnection;
+    });
+
+    it('should copy the query result to a Parquet file and return its contents', async () => {
+      const contents = new Uint8Array([80, 65, 82, 49]);
+      mockConnection.query.mockResolvedValueOnce(undefined);
+      mockDb.copyFileToBuffer.mockResolvedValueOnce(contents);
+
+      const buffer = await duckDBManager.exportParquet('SELECT * FROM t');
+
+      const copySql = mockConnection.query.mock.calls[0]?.[0] as string;
+      expect(copySql).toMatch(/^COPY \(SELECT \* FROM t\n\) TO '(.+\.parquet)' \(FORMAT PARQUET\)$/);
+      const fileName = copySql.match(/TO '(.+)'/)?.[1];
+      expect(mockDb.copyFileToBuffer).toHaveBeenCalledWith(fileName);
+      expect(mockDb.dropFile).toHaveBeenCalledWith(fileName);
+      expect(buffer).toBe(contents);
+    });
+
+    it('should bind parameters of the exported query', async () => {
+      const statement = { query: vi.fn(() => Promise.resolve()), close: vi.fn(() => Promise.resolve()) };
+      mockConnection.prepare.mockResolvedValueOnce(statement);
+      mockDb.copyFileToBuffer.mockResolvedValueOnce(new Uint8Array());
+
+      await duckDBManager.exportParquet('SELECT * FROM t WHERE x > $1', undefined, [5]);
+
+      expect(mockConnection.prepare).toHaveBeenCalledWith(
+        expect.stringMatching(/^COPY \(SELECT \* FROM t WHERE x > \$1\n\) TO '.+\.parquet'/)
+      );
+      expect(statement.query).toHaveBeenCalledWith(5);
+      expect(statement.close).toHaveBeenCalled();
+      expect(mockConnection.query).not.toHaveBeenCalled();
+    });
+
+    it('should close the subquery after a trailing line comment', async () => {
+      mockConnection.query.mockResolvedValueOnce(undefined);
+      mockDb.copyFileToBuffer.mockResolvedValueOnce(new Uint8Array());
+
+      await duckDBManager.exportParquet('SELECT * FROM t -- all rows');
+
+      expect(mockConnection.query).toHaveBeenCalledWith(
+        expect.stringMatching(/^COPY \(SELECT \* FROM t -- all rows\n\) TO '.+\.parquet' \(FORMAT PARQUET\)$/)
+      );
+    });
+
+    it('should drop the file and report errors', async () => {
+      mockConnection.query.mockRejectedValueOnce(new Error('not a query'));
+
+      await expect(duckDBManager.exportParquet('CREATE TABLE t (id INT)')).rejects.toThrow(
+        'Parquet export failed: not a query'
+      );
+      expect(mockDb.dropFile).toHaveBeenCalled();
+    });
+  });
+
+  describe('runSetupQueries', () => {
+    beforeEach(() => {
+      (duckDBManager as any).db = mockDb;
+      (duckDBManager as any).connection = mockConnection;
+      (duckDBManager as any).initQueriesExecuted = true;
+      (duckDBManager as any).executedSetupQueries = new Map();
+      mockConnection.query.mockResolvedValue(undefined);
+    });
+
+    it('should run each setup statement once per session', async () => {
+      await duckDBManager.runSetupQueries(['CREATE TABLE t AS SELECT 1 AS x', 'SET VARIABLE v = 1']);
+      await duckDBManager.runSetupQueries(['CREATE TABLE t AS SELECT 1 AS x', 'CREATE TABLE u (id INT)']);
+
+      expect(mockConnection.query.mock.calls.map((call: unknown[]) => call[0])).toEqual([
+        'CREATE TABLE t AS SELECT 1 AS x',
+        'SET VARIABLE v = 1',
+        'CREATE TABLE u (id INT)',
+      ]);
+    });
+
+    it('should run setup statements again in other sessions', async () => {
+      const sessionConnection = { query: vi.fn(() => Promise.resolve()), close: vi.fn() };
+      mockDb.connect.mockResolvedValueOnce(sessionConnection);
+
+      await duckDBManager.runSetupQueries(['CREATE TABLE t (id INT)']);
+      await duckDBManager.runSetupQueries(['CREATE TABLE t (id INT)'], { id: 'embed:1' });
+
+      expect(mockConnection.query).toHaveBeenCalledTimes(1);
+      expect(sessionConnection.query).toHaveBeenCalledWith('CREATE TABLE t (id INT)');
+    });
+
+    it('should report failures and retry failed statements', async () => {
+      mockConnection.query.mockRejectedValueOnce(new Error('Catalog Error'));
+
+      await expect(duckDBManager.runSetupQueries(['CREATE TABLE t AS SELECT * FROM missing'])).rejects.toThrow(
+        'Setup query failed: Catalog Error'
+      );
+      await duckDBManager.runSetupQueries(['CREATE TABLE t AS SELECT * FROM missing']);
+
+      expect(mockConnection.query).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('sessions', () => {
+    const createSessionConnection = () => ({
+      query: vi.fn(() => Promise.resolve()),
+      send: vi.fn(() => Promise.resolve(createMockArrowReader({
+        schema: { fields: [] },
+        numRows: 0,
+        numCols: 0,
+        getChildAt: () => null,
+      }))),
+      cancelSent: vi.fn(() => Promise.resolve(true)),
+      close: vi.fn(() => Promise.resolve()),
+    });
+
+    beforeEach(() => {
+      (duckDBManager as any).db = mockDb;
+      (duckDBManager as any).connection = mockConnection;
+      (duckDBManager as any).initQueriesExecuted = true;
+    });
+
+    it('should run session queries on a separate connection, created once', async () => {
+      const sessionConnection = createSessionConnection();
+      mockDb.connect.mockResolvedValueOnce(sessionConnection);
+
+      await duckDBManager.query('SELECT 1', { session: { id: 'embed:1' } });
+      await duckDBManager.query('SELECT 2', { session: { id: 'embed:1' } });
+
+      expect(mockDb.connect).toHaveBeenCalledTimes(1);
+      expect(sessionConnection.send).toHaveBeenCalledTimes(2);
+      expect(mockConnection.send).not.toHaveBeenCalled();
+      expect(duckDBManager.getSessionIds()).toEqual(['embed:1']);
+    });
+
+    it('should attach and use a private database when requested', async () => {
+      const sessionConnection = createSessionConnection();
+      mockDb.connect.mockResolvedValueOnce(sessionConnection);
+
+      await duckDBManager.query('CREATE TABLE t (id INT)', { session: { id: 'embed:1', privateDatabase: true } });
+
+      const [attach, use] = sessionConnection.query.mock.calls.map((call: unknown[]) => call[0] as string);
+      const database = attach?.match(/^ATTACH ':memory:' AS (\w+)$/)?.[1];
+      expect(database).toBeDefined();
+      expect(use).toBe(`USE ${database}`);
+
+      await duckDBManager.closeSession('embed:1');
+      expect(sessionConnection.query).toHaveBeenCalledWith(`DETACH ${database}`);
+      expect(sessionConnection.close).toHaveBeenCalledTimes(1);
+    });
+
+    it('should close a session when its last owner releases it', async () => {
+      const sessionConnection = createSessionConnection();
+      mockDb.connect.mockResolvedValueOnce(sessionConnection);
+      duckDBManager.retainSession('notebook:intro');
+      duckDBManager.retainSession('notebook:intro');
+      await duckDBManager.query('SELECT 1', { session: { id: 'notebook:intro' } });
+
+      duckDBManager.releaseSession('notebook:intro');
+      await Promise.resolve();
+      expect(sessionConnection.close).not.toHaveBeenCalled();
+
+      duckDBManager.releaseSession('notebook:intro');
+      await vi.waitFor(() => expect(sessionConnection.close).toHaveBeenCalledTimes(1));
+      expect(duckDBManager.getSessionIds()).toEqual([]);
+    });
+
+    it('should cancel queries per session', async () => {
+      const sessionConnection = createSessionConnection();
+      mockDb.connect.mockResolvedValueOnce(sessionConnection);
+      let rejectSend: ((error: Error) => void) | null = null;
+      sessionConnection.send.mockImplementationOnce(
+        () => new Promise((_, reject) => { rejectSend = reject; })
+      );
+      sessionConnection.cancelSent.mockImplementationOnce(async () => {
+        rejectSend?.(new Error('query was interrupted'));
+        return true;
+      });
+
+      const queryPromise = duckDBManager.query('SELECT * FROM range(100000000)', { session: { id: 'embed:1' } });
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      await expect(duckDBManager.cancel()).resolves.toBe(false);
+      await expect(duckDBManager.cancel('embed:1')).resolves.toBe(true);
+      await expect(queryPromise).rejects.toThrow('Query was cancelled');
+      expect(mockConnection.cancelSent).not.toHaveBeenCalled();
+    });
+
+    it('should close all sessions on close', async () => {
+      const sessionConnection = createSessionConnection();
+      mockDb.connect.mockResolvedValueOnce(sessionConnection);
+      mockConnection.close.mockResolvedValue(undefined);
+      await duckDBManager.query('SELECT 1', { session: { id: 'embed:1' } });
+
+      await duckDBManager.close();
+
+      expect(sessionConnection.close).toHaveBeenCalledTimes(1);
+      expect(duckDBManager.getSessionIds()).toEqual([]);
+    });
   });
 
   describe('close', () => {
     beforeEach(() => {
       (duckDBManager as any).db = mockDb;
       (duckDBManager as any).connection = mockConnection;
-      (duckDBManager as any).registeredFiles.add('https://example.com/data.parquet');
+      (duckDBManager as any).registeredFiles.set('data.parquet', 'https://example.com/data.parquet');
     });
 
     it('should close connection and terminate database', async () => {
@@ -298,6 +1081,19 @@ describe('duckdb-manager', () => {
       expect(registeredFiles.size).toBe(0);
     });
 
+    it('should drop local files and notify subscribers', async () => {
+      (duckDBManager as any).localFiles.add('trips.csv');
+      const handler = vi.fn();
+      const stopCloseUpdates = duckDBManager.onClose(handler);
+
+      await duckDBManager.close();
+      stopCloseUpdates();
+      await duckDBManager.close();
+
+      expect(duckDBManager.getLocalFiles()).toEqual([]);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
     it('should reset initialization state', async () => {
       await duckDBManager.close();
 
@@ -321,6 +1117,130 @@ describe('duckdb-manager', () => {
     });
   });
 
+  describe('persistence', () => {
+    beforeEach(() => {
+      (duckDBManager as any).duckdbModule = mockDuckDBModule;
+      (duckDBManager as any).config.persistence = 'notes';
+      mockDuckDBModule.selectBundle.mockImplementation((bundles: any) => Promise.resolve(bundles.mvp));
+      mockDb.connect.mockResolvedValue(mockConnection);
+      mockConnection.query.mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+    });
+
+    it('should open the database in OPFS', async () => {
+      vi.stubGlobal('navigator', { storage: { getDirectory: vi.fn() } });
+
+      await (duckDBManager as any).doInitialize();
+
+      expect(mockDb.open).toHaveBeenCalledWith({ path: 'opfs://notes.duckdb', accessMode: 3 });
+      expect((duckDBManager as any).storage).toBe('opfs');
+    });
+
+    it('should load the database from IndexedDB without OPFS', async () => {
+      const contents = new Uint8Array([1, 2, 3]);
+      vi.stubGlobal('indexedDB', {});
+      vi.mocked(loadFromIndexedDB).mockResolvedValue(contents);
+
+      await (duckDBManager as any).doInitialize();
+
+      expect(loadFromIndexedDB).toHaveBeenCalledWith('notes');
+      expect(mockDb.registerFileBuffer).toHaveBeenCalledWith('notes.duckdb', contents);
+      expect(mockDb.open).toHaveBeenCalledWith({ path: 'notes.duckdb', accessMode: 3 });
+    });
+
+    it('should use an in-memory database without persistent storage', async () => {
+      const sink = { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() };
+      configureLogger({ level: 'warn', sink });
+
+      await (duckDBManager as any).doInitialize();
+
+      expect(mockDb.open).not.toHaveBeenCalled();
+      expect(sink.warn).toHaveBeenCalledWith('No persistent storage available, using an in-memory database');
+      configureLogger({ level: 'info', sink: console });
+    });
+
+    it('should checkpoint after changes', async () => {
+      vi.useFakeTimers();
+      (duckDBManager as any).db = mockDb;
+      (duckDBManager as any).connection = mockConnection;
+      (duckDBManager as any).storage = 'opfs';
+      (duckDBManager as any).initQueriesExecuted = true;
+      (duckDBManager as any).executedSetupQueries = new Map();
+
+      await duckDBManager.runSetupQueries(['CREATE TABLE a (id INT)', 'CREATE TABLE b (id INT)']);
+      await vi.advanceTimersByTimeAsync(500);
+
+      // Changes are batched into a single checkpoint
+      expect(mockConnection.query.mock.calls.map((call: unknown[]) => call[0])).toEqual([
+        'CREATE TABLE a (id INT)',
+        'CREATE TABLE b (id INT)',
+        'CHECKPOINT',
+      ]);
+    });
+
+    it('should save the database to IndexedDB after changes', async () => {
+      vi.useFakeTimers();
+      const contents = new Uint8Array([4, 5]);
+      (duckDBManager as any).db = mockDb;
+      (duckDBManager as any).connection = mockConnection;
+      (duckDBManager as any).storage = 'indexeddb';
+      mockDb.copyFileToBuffer.mockResolvedValue(contents);
+
+      (duckDBManager as any).schedulePersist();
+      await vi.advanceTimersByTimeAsync(500);
+
+      expect(mockDb.copyFileToBuffer).toHaveBeenCalledWith('notes.duckdb');
+      expect(saveToIndexedDB).toHaveBeenCalledWith('notes', contents);
+    });
+
+    it('should save pending changes on close', async () => {
+      vi.useFakeTimers();
+      (duckDBManager as any).db = mockDb;
+      (duckDBManager as any).connection = mockConnection;
+      (duckDBManager as any).storage = 'opfs';
+
+      (duckDBManager as any).schedulePersist();
+      await duckDBManager.close();
+
+      expect(mockConnection.query).toHaveBeenCalledWith('CHECKPOINT');
+      expect(mockDb.terminate).toHaveBeenCalled();
+    });
+
+    it('should delete the database on reset', async () => {
+      vi.useFakeTimers();
+      vi.stubGlobal('navigator', { storage: { getDirectory: vi.fn() } });
+      (duckDBManager as any).db = mockDb;
+      (duckDBManager as any).connection = mockConnection;
+      (duckDBManager as any).storage = 'opfs';
+
+      (duckDBManager as any).schedulePersist();
+      await duckDBManager.resetDatabase();
+
+      // Pending changes are discarded
+      expect(mockConnection.query).not.toHaveBeenCalled();
+      expect(mockDb.terminate).toHaveBeenCalled();
+      expect(removeFromOPFS).toHaveBeenCalledWith('notes');
+      expect(duckDBManager.isInitialized()).toBe(false);
+    });
+
+    it('should switch sessions back to the persistent database', async () => {
+      const sessionConnection = { query: vi.fn(() => Promise.resolve()), close: vi.fn() };
+      mockDb.connect.mockResolvedValueOnce(sessionConnection);
+      (duckDBManager as any).db = mockDb;
+      (duckDBManager as any).connection = mockConnection;
+      (duckDBManager as any).mainDatabase = '"notes"';
+
+      await (duckDBManager as any).getConnection({ id: 'embed:1', privateDatabase: true });
+      await duckDBManager.closeSession('embed:1');
+
+      expect(sessionConnection.query).toHaveBeenCalledWith('USE "notes"');
+    });
+  });
+
   describe('initialization', () => {
     it('should return immediately if already initialized', async () => {
       (duckDBManager as any).db = mockDb;
@@ -95,6 +95,37 @@ describe('Embedded', () => {
       // data-theme attribute has highest priority
       expect(container?.getAttribute('data-theme')).toBe('dark');
     });
+
+    it('should fall back to options.theme for an empty data-theme attribute', () => {
+      const element = createSQLElement('SELECT 1');
+      element.setAttribute('data-theme', '');
+      const embed = new Embedded(element, { theme: 'dark' });
+
+      expect(embed.getContainer()?.getAttribute('data-theme')).toBe('dark');
+    });
+
+    it('should prioritize data attributes over options', () => {
+      const element = createSQLElement('SELECT 1');
+      element.setAttribute('data-editable', 'false');
+      element.setAttribute('data-show-open-button', 'false');
+      element.setAttribute('data-max-rows', '50');
+      const embed = new Embedded(element, { editable: true, showOpenButton: true, maxRows: 1000, pageSize: 20 });
+
+      expect((embed as any).options.editable).toBe(false);
+      expect((embed as any).options.maxRows).toBe(50);
+      expect((embed as any).options.pageSize).toBe(20);
+      expect(embed.getContainer()?.querySelector('.sql-workbench-button-open')).toBeFalsy();
+    });
+
+    it('should fall back to options for invalid data attributes', () => {
+      const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const element = createSQLElement('SELECT 1');
+      element.setAttribute('data-page-size', 'lots');
+      const embed = new Embedded(element, { pageSize: 20 });
+
+      expect((embed as any).options.pageSize).toBe(20);
+      expect(consoleWarnSpy).toHaveBeenCalled();
+    });
   });
 
   describe('UI creation', () => {
@@ -360,10 +391,25 @@ describe('Embedded', () => {
       expect(duckDBManager.configure).toHaveBeenCalledWith({
         version: '1.30.0',
         cdn: 'https://custom-cdn.com',
+        bundles: null,
+        persistence: null,
       });
       vi.useFakeTimers();
     });
 
+    it('should pass self-hosted bundles to DuckDB', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element, { duckdbBundles: '/assets/duckdb/' });
+
+      await embed.run();
+
+      expect(duckDBManager.configure).toHaveBeenCalledWith(expect.objectContaining({
+        bundles: '/assets/duckdb/',
+      }));
+      vi.useFakeTimers();
+    });
+
     it('should register file URLs before query execution', async () => {
       vi.useRealTimers();
       const sql = "SELECT * FROM 'data.parquet'";
@@ -375,9 +421,195 @@ describe('Embedded', () => {
       await embed.run();
 
       expect(duckDBManager.registerFile).toHaveBeenCalledWith(
-        'data.parquet',
+        'data.example.com/data.parquet',
         'https://data.example.com/data.parquet'
       );
+      expect(vi.mocked(duckDBManager.query).mock.calls[0]?.[0]).toBe("SELECT * FROM 'data.example.com/data.parquet'");
+      vi.useFakeTimers();
+    });
+
+    it('should keep files with the same name in different directories apart', async () => {
+      vi.useRealTimers();
+      // Simulate DuckDB reading registered files: each URL holds different data
+      const files = new Map<string, string>();
+      vi.mocked(duckDBManager.registerFile).mockImplementation(async (name, url) => {
+        files.set(name, url);
+      });
+      vi.mocked(duckDBManager.query).mockImplementation(async (sql) => {
+        const name = /FROM '([^']+)'/.exec(sql)?.[1] ?? '';
+        const year = files.get(name)?.includes('/2023/') ? 2023 : 2024;
+        return { columns: ['year'], rows: [[year]], rowCount: 1, executionTime: 1 };
+      });
+      const element = createSQLElement("SELECT * FROM '2023/data.parquet';\nSELECT * FROM '2024/data.parquet'");
+      const embed = new Embedded(element, { baseUrl: 'https://data.example.com' });
+      const results: unknown[] = [];
+      embed.on('result', ({ statementResults }) => {
+        results.push(...(statementResults ?? []).map((statement) => statement.result?.rows));
+      });
+
+      await embed.run();
+
+      expect(files).toEqual(
+        new Map([
+          ['data.example.com/2023/data.parquet', 'https://data.example.com/2023/data.parquet'],
+          ['data.example.com/2024/data.parquet', 'https://data.example.com/2024/data.parquet'],
+        ])
+      );
+      expect(results).toEqual([[[2023]], [[2024]]]);
+      vi.useFakeTimers();
+    });
+
+    it('should register URLs that differ only in their query string as separate files', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement(
+        "SELECT * FROM 'https://example.com/data.csv?v=1' UNION ALL SELECT * FROM 'https://example.com/data.csv?v=2'"
+      );
+      const embed = new Embedded(element);
+
+      await embed.run();
+
+      const calls = vi.mocked(duckDBManager.registerFile).mock.calls;
+      expect(calls.map(([, url]) => url)).toEqual(['https://example.com/data.csv?v=1', 'https://example.com/data.csv?v=2']);
+      expect(new Set(calls.map(([name]) => name)).size).toBe(2);
+      vi.useFakeTimers();
+    });
+
+    it('should expand globs with the manifest, keeping hive partitions in the paths', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement("SELECT * FROM 'events/year=*/*.parquet'");
+      const embed = new Embedded(element, {
+        baseUrl: 'https://data.example.com',
+        manifest: ['events/year=2023/a.parquet', 'events/year=2024/b.parquet', 'events/readme.md'],
+      });
+
+      await embed.run();
+
+      expect(vi.mocked(duckDBManager.registerFile).mock.calls).toEqual([
+        ['data.example.com/events/year=2023/a.parquet', 'https://data.example.com/events/year=2023/a.parquet'],
+        ['data.example.com/events/year=2024/b.parquet', 'https://data.example.com/events/year=2024/b.parquet'],
+      ]);
+      expect(vi.mocked(duckDBManager.query).mock.calls[0]?.[0]).toBe(
+        "SELECT * FROM 'data.example.com/events/year=*/*.parquet'"
+      );
+      vi.useFakeTimers();
+    });
+
+    it('should report globs that cannot be expanded', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement("SELECT 1;\nSELECT * FROM 'events/*.parquet'");
+      const embed = new Embedded(element, { baseUrl: 'https://data.example.com' });
+
+      await embed.run();
+
+      const output = embed.getContainer()?.querySelector('.sql-workbench-output');
+      expect(output?.textContent).toContain(
+        'Cannot expand events/*.parquet: set a manifest listing the files at https://data.example.com (line 2)'
+      );
+      expect(duckDBManager.query).not.toHaveBeenCalled();
+      vi.useFakeTimers();
+    });
+
+    it('should leave URLs with other schemes to DuckDB', async () => {
+      vi.useRealTimers();
+      const sql =
+        "SELECT * FROM 's3://bucket/trips.parquet'\nJOIN read_csv('hf://datasets/user/repo/zones.csv') USING (zone)\nJOIN 'gs://bucket/fares.parquet' USING (id)";
+      const element = createSQLElement(sql);
+      const embed = new Embedded(element, { baseUrl: 'https://data.example.com' });
+
+      await embed.run();
+
+      expect(duckDBManager.registerFile).not.toHaveBeenCalled();
+      expect(vi.mocked(duckDBManager.query).mock.calls[0]?.[0]).toBe(sql);
+      vi.useFakeTimers();
+    });
+
+    it('should leave globs over URLs with other schemes to DuckDB', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement("SELECT * FROM 's3://bucket/*.parquet'");
+      const embed = new Embedded(element, { baseUrl: 'https://data.example.com' });
+
+      await embed.run();
+
+      expect(duckDBManager.registerFile).not.toHaveBeenCalled();
+      expect(vi.mocked(duckDBManager.query).mock.calls[0]?.[0]).toBe("SELECT * FROM 's3://bucket/*.parquet'");
+      vi.useFakeTimers();
+    });
+
+    it('should leave globs over local files to DuckDB', async () => {
+      vi.useRealTimers();
+      vi.mocked(duckDBManager.getLocalFiles).mockReturnValueOnce(['trips-2023.csv', 'trips-2024.csv']);
+      const element = createSQLElement("SELECT * FROM 'trips*.csv'");
+      const embed = new Embedded(element, {
+        baseUrl: 'https://data.example.com',
+        manifest: ['trips-2022.csv'],
+      });
+
+      await embed.run();
+
+      expect(duckDBManager.registerFile).not.toHaveBeenCalled();
+      expect(vi.mocked(duckDBManager.query).mock.calls[0]?.[0]).toBe("SELECT * FROM 'trips*.csv'");
+      vi.useFakeTimers();
+    });
+
+    it('should use local files instead of resolving them', async () => {
+      vi.useRealTimers();
+      vi.mocked(duckDBManager.getLocalFiles).mockReturnValueOnce(['trips.csv']);
+      const element = createSQLElement("SELECT * FROM 'trips.csv'");
+      const embed = new Embedded(element);
+
+      await embed.run();
+
+      expect(duckDBManager.registerFile).not.toHaveBeenCalled();
+      expect(vi.mocked(duckDBManager.query).mock.calls[0]?.[0]).toBe("SELECT * FROM 'trips.csv'");
+      vi.useFakeTimers();
+    });
+
+    it('should rewrite file paths in setup queries', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement('SELECT * FROM sample.orders');
+      const embed = new Embedded(element, {
+        baseUrl: 'https://data.example.com',
+        setupQueries: ["ATTACH 'db/sample.duckdb' AS sample (READ_ONLY)"],
+      });
+
+      await embed.run();
+
+      expect(duckDBManager.runSetupQueries).toHaveBeenCalledWith(
+        ["ATTACH 'data.example.com/db/sample.duckdb' AS sample (READ_ONLY)"],
+        undefined
+      );
+      vi.useFakeTimers();
+    });
+
+    it('should register attached database files', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement("ATTACH 'sample.duckdb' AS sample (READ_ONLY);\nSELECT * FROM sample.orders");
+      const embed = new Embedded(element, {
+        baseUrl: 'https://data.example.com',
+      });
+
+      await embed.run();
+
+      expect(duckDBManager.registerFile).toHaveBeenCalledWith(
+        'data.example.com/sample.duckdb',
+        'https://data.example.com/sample.duckdb'
+      );
+      vi.useFakeTimers();
+    });
+
+    it('should name the line of a file that fails to register', async () => {
+      vi.useRealTimers();
+      vi.mocked(duckDBManager.registerFile).mockRejectedValueOnce(
+        new Error('Failed to register file missing.csv: Not found')
+      );
+      const element = createSQLElement("SELECT 1;\n-- 'ignored.csv'\nSELECT * FROM 'missing.csv'");
+      const embed = new Embedded(element);
+
+      await embed.run();
+
+      expect(duckDBManager.registerFile).toHaveBeenCalledTimes(1);
+      const output = embed.getContainer()?.querySelector('.sql-workbench-output');
+      expect(output?.textContent).toContain('Failed to register file missing.csv: Not found (line 3)');
       vi.useFakeTimers();
     });
 
@@ -397,6 +629,41 @@ describe('Embedded', () => {
       vi.useFakeTimers();
     });
 
+    it('should show DuckDB initialization progress while loading', async () => {
+      vi.useRealTimers();
+      let report: (progress: any) => void = () => undefined;
+      vi.mocked(duckDBManager.onProgress).mockImplementation((handler) => {
+        report = handler;
+        return () => undefined;
+      });
+      let finishQuery: () => void = () => undefined;
+      vi.mocked(duckDBManager.query).mockImplementationOnce(
+        () => new Promise((resolve) => {
+          finishQuery = () => resolve({ columns: ['x'], rows: [[1]], rowCount: 1, executionTime: 1 });
+        })
+      );
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element);
+
+      const runPromise = embed.run();
+      report({ stage: 'instantiating', loaded: 2 * 1024 * 1024, total: 4 * 1024 * 1024 });
+
+      const steps = Array.from(
+        embed.getContainer()?.querySelectorAll<HTMLElement>('.sql-workbench-progress-step') ?? []
+      );
+      expect(steps.map((step) => step.dataset.status)).toEqual(['done', 'done', 'active']);
+      expect(steps[2]?.textContent).toBe('Instantiating WebAssembly (2.0 MB of 4.0 MB)');
+
+      // Once DuckDB is ready, the regular loading message is shown
+      report({ stage: 'ready' });
+      expect(embed.getContainer()?.textContent).toContain('Executing query');
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      finishQuery();
+      await runPromise;
+      vi.useFakeTimers();
+    });
+
     it('should display results in table format', async () => {
       vi.useRealTimers();
       const element = createSQLElement('SELECT 1');
@@ -495,7 +762,7 @@ describe('Embedded', () => {
       vi.useFakeTimers();
     });
 
-    it('should disable buttons during query execution', async () => {
+    it('should turn Run into Stop and disable Reset during query execution', async () => {
       vi.useRealTimers();
       const element = createSQLElement('SELECT 1');
       const embed = new Embedded(element);
@@ -505,12 +772,16 @@ describe('Embedded', () => {
       const runButton = embed.getContainer()?.querySelector('.sql-workbench-button-primary') as HTMLButtonElement;
       const resetButton = embed.getContainer()?.querySelector('.sql-workbench-button-reset') as HTMLButtonElement;
 
-      expect(runButton?.disabled).toBe(true);
+      expect(runButton?.disabled).toBe(false);
+      expect(runButton?.textContent).toBe('Stop');
+      expect(runButton?.classList.contains('sql-workbench-button-stop')).toBe(true);
       expect(resetButton?.disabled).toBe(true);
 
       await runPromise;
 
-      expect(runButton?.disabled).toBe(false);
+      expect(runButton?.textContent).toBe('Run');
+      expect(runButton?.getAttribute('aria-label')).toBe('Execute SQL query');
+      expect(runButton?.classList.contains('sql-workbench-button-stop')).toBe(false);
       expect(resetButton?.disabled).toBe(false);
       vi.useFakeTimers();
     });
@@ -578,137 +849,894 @@ describe('Embedded', () => {
     });
   });
 
-  describe('reset method', () => {
-    it('should restore initial code', () => {
+  describe('value formatting', () => {
+    it('should format cells by column type', async () => {
+      vi.useRealTimers();
+      vi.mocked(duckDBManager.query).mockResolvedValue({
+        columns: ['day', 'tags', 'missing'],
+        columnTypes: [
+          { name: 'day', type: 'DATE', kind: 'date' },
+          { name: 'tags', type: 'VARCHAR[]', kind: 'list' },
+          { name: 'missing', type: 'INTEGER', kind: 'integer' },
+        ],
+        rows: [[new Date(Date.UTC(2024, 0, 15)), ['a', 'b'], null]],
+        rowCount: 1,
+        executionTime: 5,
+      });
       const element = createSQLElement('SELECT 1');
       const embed = new Embedded(element);
-      const editor = embed.getContainer()?.querySelector('.sql-workbench-editor') as HTMLElement;
 
-      editor.textContent = 'SELECT 42';
-      embed.reset();
+      await embed.run();
 
-      // Normalize whitespace/invisible characters and check
-      const normalizedText = editor.textContent?.replace(/\s+/g, ' ').trim();
-      expect(normalizedText).toBe('SELECT 1');
+      const container = embed.getContainer()!;
+      const cells = Array.from(container.querySelectorAll('tbody td'));
+      expect(cells.map((cell) => cell.textContent)).toEqual(['2024-01-15', '["a","b"]', 'NULL']);
+      expect(cells[1]?.classList.contains('sql-workbench-cell-nested')).toBe(true);
+      expect(container.querySelector('th')?.getAttribute('title')).toBe('DATE');
+      vi.useFakeTimers();
     });
+  });
 
-    it('should clear output area', async () => {
+  describe('result export', () => {
+    const exportedResult = {
+      columns: ['id', 'name'],
+      rows: [[1, 'Alice']],
+      rowCount: 1,
+      executionTime: 5,
+    };
+
+    it('should render an export menu in the metadata bar', async () => {
       vi.useRealTimers();
+      vi.mocked(duckDBManager.query).mockResolvedValue(exportedResult);
       const element = createSQLElement('SELECT 1');
       const embed = new Embedded(element);
 
       await embed.run();
 
-      embed.reset();
-
-      const output = embed.getContainer()?.querySelector('.sql-workbench-output');
-      expect(output?.classList.contains('sql-workbench-output-hidden')).toBe(true);
-      expect(output?.textContent).toBe('');
+      const options = embed.getContainer()!.querySelectorAll<HTMLButtonElement>('.sql-workbench-metadata .sql-workbench-export-option');
+      expect(Array.from(options).map((option) => option.dataset.format)).toEqual([
+        'csv', 'tsv', 'json', 'markdown', 'parquet', 'clipboard',
+      ]);
       vi.useFakeTimers();
     });
 
-    it('should hide reset button', async () => {
+    it('should copy results to the clipboard as TSV', async () => {
       vi.useRealTimers();
+      const writeText = vi.fn(() => Promise.resolve());
+      Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+      vi.mocked(duckDBManager.query).mockResolvedValue(exportedResult);
       const element = createSQLElement('SELECT 1');
       const embed = new Embedded(element);
 
       await embed.run();
+      await embed.exportResult('clipboard');
 
-      const resetButton = embed.getContainer()?.querySelector('.sql-workbench-button-reset');
-      expect(resetButton?.classList.contains('sql-workbench-button-hidden')).toBe(false);
-
-      embed.reset();
-
-      expect(resetButton?.classList.contains('sql-workbench-button-hidden')).toBe(true);
+      expect(writeText).toHaveBeenCalledWith('id\tname\n1\tAlice\n');
       vi.useFakeTimers();
     });
-  });
 
-  describe('destroy method', () => {
-    it('should remove container from DOM', () => {
-      const element = createSQLElement('SELECT 1');
+    it('should download Parquet files produced by DuckDB', async () => {
+      vi.useRealTimers();
+      const clickSpy = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+      vi.mocked(duckDBManager.query).mockResolvedValue(exportedResult);
+      vi.mocked(duckDBManager.exportParquet).mockResolvedValue(new Uint8Array([1, 2, 3]));
+      const element = createSQLElement('SELECT * FROM users');
       const embed = new Embedded(element);
-      const container = embed.getContainer();
 
-      embed.destroy();
+      await embed.run();
+      await embed.exportResult('parquet');
 
-      expect(document.body.contains(container)).toBe(false);
+      const exportedSql = vi.mocked(duckDBManager.exportParquet).mock.calls[0]?.[0];
+      expect(exportedSql?.replace(/\s+/g, ' ')).toBe('SELECT * FROM users');
+      expect(clickSpy.mock.contexts[0]).toMatchObject({ download: 'query-result.parquet' });
+      clickSpy.mockRestore();
+      vi.useFakeTimers();
     });
 
-    it('should mark embed as destroyed', () => {
+    it('should export from the menu', async () => {
+      vi.useRealTimers();
+      const writeText = vi.fn(() => Promise.resolve());
+      Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+      vi.mocked(duckDBManager.query).mockResolvedValue(exportedResult);
       const element = createSQLElement('SELECT 1');
       const embed = new Embedded(element);
 
-      expect(embed.isDestroyed()).toBe(false);
-
-      embed.destroy();
+      await embed.run();
+      embed.getContainer()!.querySelector<HTMLButtonElement>('[data-format="clipboard"]')!.click();
+      await new Promise(resolve => setTimeout(resolve, 0));
 
-      expect(embed.isDestroyed()).toBe(true);
+      expect(writeText).toHaveBeenCalledTimes(1);
+      vi.useFakeTimers();
     });
 
-    it('should clear internal references', () => {
+    it('should reject when there is no result to export', async () => {
       const element = createSQLElement('SELECT 1');
       const embed = new Embedded(element);
 
-      embed.destroy();
-
-      expect(embed.getContainer()).toBeNull();
+      await expect(embed.exportResult('csv')).rejects.toThrow('No query result to export');
     });
+  });
 
-    it('should be safe to call multiple times', () => {
+  describe('result pagination', () => {
+    function mockLargeResult(loadedRows: number, truncated = false): void {
+      vi.mocked(duckDBManager.query).mockResolvedValue({
+        columns: ['n'],
+        rows: Array.from({ length: loadedRows }, (_, i) => [i + 1]),
+        rowCount: loadedRows,
+        truncated,
+        executionTime: 12,
+      });
+    }
+
+    it('should pass maxRows to the query', async () => {
+      vi.useRealTimers();
       const element = createSQLElement('SELECT 1');
-      const embed = new Embedded(element);
+      const embed = new Embedded(element, { maxRows: 500 });
 
-      embed.destroy();
-      embed.destroy();
-      embed.destroy();
+      await embed.run();
 
-      expect(embed.isDestroyed()).toBe(true);
+      expect(vi.mocked(duckDBManager.query).mock.calls[0]?.[1]).toEqual({ maxRows: 500 });
+      vi.useFakeTimers();
     });
-  });
-
-  describe('syntax highlighting', () => {
-    it('should apply syntax highlighting to initial code', () => {
-      const element = createSQLElement('SELECT * FROM users');
-      const embed = new Embedded(element);
-      const editor = embed.getContainer()?.querySelector('.sql-workbench-editor');
 
-      expect(editor?.innerHTML).toContain('sql-keyword');
-    });
+    it('should render only the first page of rows', async () => {
+      vi.useRealTimers();
+      mockLargeResult(250);
+      const element = createSQLElement('SELECT * FROM range(250)');
+      const embed = new Embedded(element, { pageSize: 100 });
 
-    it('should update highlighting on input (debounced)', async () => {
-      const element = createSQLElement('SELECT 1');
-      const embed = new Embedded(element);
-      const editor = embed.getContainer()?.querySelector('.sql-workbench-editor') as HTMLElement;
+      await embed.run();
 
-      editor.textContent = 'SELECT * FROM users';
-      editor.dispatchEvent(new Event('input', { bubbles: true }));
+      const container = embed.getContainer()!;
+      expect(container.querySelectorAll('tbody tr').length).toBe(100);
+      expect(container.querySelector('.sql-workbench-page-info')?.textContent).toBe('Showing 1–100 of 250 rows');
+      expect(container.querySelector('.sql-workbench-pager')?.textContent).toContain('Page 1 of 3');
+      vi.useFakeTimers();
+    });
 
-      // Advance timers past debounce delay
-      await vi.advanceTimersByTimeAsync(150);
+    it('should navigate between pages', async () => {
+      vi.useRealTimers();
+      mockLargeResult(250);
+      const element = createSQLElement('SELECT * FROM range(250)');
+      const embed = new Embedded(element, { pageSize: 100 });
 
-      expect(editor.innerHTML).toContain('sql-keyword');
-    });
+      await embed.run();
 
-  });
+      const container = embed.getContainer()!;
+      const next = () => container.querySelector('[data-page="next"]') as HTMLButtonElement;
+      const prev = () => container.querySelector('[data-page="prev"]') as HTMLButtonElement;
 
-  describe('initQueries integration', () => {
-    it('should configure init queries when DuckDB not initialized', async () => {
-      vi.useRealTimers();
-      const element = createSQLElement('SELECT 1');
-      const embed = new Embedded(element, {
-        initQueries: ['INSTALL spatial', 'LOAD spatial'],
-      });
+      expect(prev().disabled).toBe(true);
 
-      vi.mocked(duckDBManager.isInitialized).mockReturnValue(false);
+      next().click();
+      next().click();
 
-      await embed.run();
+      expect(container.querySelector('.sql-workbench-page-info')?.textContent).toBe('Showing 201–250 of 250 rows');
+      expect(container.querySelectorAll('tbody tr').length).toBe(50);
+      expect(container.querySelector('tbody td')?.textContent).toBe('201');
+      expect(next().disabled).toBe(true);
 
-      expect(duckDBManager.configure).toHaveBeenCalled();
-      expect(duckDBManager.configureInitQueries).toHaveBeenCalledWith([
-        'INSTALL spatial',
-        'LOAD spatial',
-      ]);
+      prev().click();
+
+      expect(container.querySelector('tbody td')?.textContent).toBe('101');
+      vi.useFakeTimers();
+    });
+
+    it('should report results truncated by maxRows', async () => {
+      vi.useRealTimers();
+      mockLargeResult(100, true);
+      const element = createSQLElement("SELECT * FROM 'big.parquet'");
+      const embed = new Embedded(element, { pageSize: 100, maxRows: 100 });
+
+      await embed.run();
+
+      const metadata = embed.getContainer()?.querySelector('.sql-workbench-metadata');
+      expect(metadata?.textContent).toContain('Showing 1–100 of 100+ rows');
+      expect(metadata?.textContent).toContain('First 100 rows loaded');
+      expect(metadata?.querySelector('.sql-workbench-pager')).toBeFalsy();
+      vi.useFakeTimers();
+    });
+
+    it('should not paginate results that fit on one page', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element);
+
+      await embed.run();
+
+      expect(embed.getContainer()?.querySelector('.sql-workbench-pager')).toBeFalsy();
+      expect(embed.getContainer()?.querySelector('.sql-workbench-page-info')).toBeFalsy();
+      vi.useFakeTimers();
+    });
+
+    it('should paginate each statement result independently', async () => {
+      vi.useRealTimers();
+      mockLargeResult(30);
+      const element = createSQLElement('SELECT 1; SELECT 2');
+      const embed = new Embedded(element, { pageSize: 10 });
+
+      await embed.run();
+
+      const sections = embed.getContainer()!.querySelectorAll('.sql-workbench-statement');
+      (sections[1]!.querySelector('[data-page="next"]') as HTMLButtonElement).click();
+
+      expect(sections[0]!.querySelector('.sql-workbench-page-info')?.textContent).toBe('Showing 1–10 of 30 rows');
+      expect(sections[1]!.querySelector('.sql-workbench-page-info')?.textContent).toBe('Showing 11–20 of 30 rows');
+      vi.useFakeTimers();
+    });
+  });
+
+  describe('multi-statement scripts', () => {
+    it('should execute each statement separately', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement('CREATE TABLE t (id INT); INSERT INTO t VALUES (1); SELECT * FROM t;');
+      const embed = new Embedded(element);
+
+      await embed.run();
+
+      // Normalize whitespace (the editor may contain non-breaking spaces)
+      const calls = vi.mocked(duckDBManager.query).mock.calls.map((call) => call[0].replace(/\s+/g, ' '));
+      expect(calls).toEqual([
+        'CREATE TABLE t (id INT)',
+        'INSERT INTO t VALUES (1)',
+        'SELECT * FROM t',
+      ]);
+      vi.useFakeTimers();
+    });
+
+    it('should render one collapsible section per statement', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement('SELECT 1; SELECT 2');
+      const embed = new Embedded(element);
+
+      await embed.run();
+
+      const sections = embed.getContainer()?.querySelectorAll('details.sql-workbench-statement');
+      expect(sections?.length).toBe(2);
+      expect(sections?.[0]?.querySelector('.sql-workbench-statement-sql')?.textContent).toMatch(/SELECT\s1/);
+      expect(sections?.[0]?.hasAttribute('open')).toBe(false);
+      expect(sections?.[1]?.hasAttribute('open')).toBe(true);
+      expect(sections?.[1]?.querySelector('table')).toBeTruthy();
+      vi.useFakeTimers();
+    });
+
+    it('should show per-statement timing', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement('SELECT 1; SELECT 2');
+      const embed = new Embedded(element);
+
+      await embed.run();
+
+      const statuses = embed.getContainer()?.querySelectorAll('.sql-workbench-statement-status');
+      expect(statuses?.[0]?.textContent).toContain('2 rows');
+      expect(statuses?.[0]?.textContent).toContain('42.00ms');
+      vi.useFakeTimers();
+    });
+
+    it('should stop at the first failing statement and skip the rest', async () => {
+      vi.useRealTimers();
+      vi.mocked(duckDBManager.query)
+        .mockResolvedValueOnce({ columns: ['Count'], rows: [[1]], rowCount: 1, executionTime: 5 })
+        .mockRejectedValueOnce(new Error('Table t does not exist'));
+
+      const element = createSQLElement('SELECT 1; SELECT * FROM t; SELECT 3');
+      const embed = new Embedded(element);
+
+      await embed.run();
+
+      expect(duckDBManager.query).toHaveBeenCalledTimes(2);
+
+      const sections = embed.getContainer()?.querySelectorAll('details.sql-workbench-statement');
+      expect(sections?.[0]?.classList.contains('sql-workbench-statement-success')).toBe(true);
+      expect(sections?.[1]?.classList.contains('sql-workbench-statement-error')).toBe(true);
+      expect(sections?.[1]?.hasAttribute('open')).toBe(true);
+      expect(sections?.[1]?.textContent).toContain('Table t does not exist');
+      expect(sections?.[2]?.classList.contains('sql-workbench-statement-skipped')).toBe(true);
+      expect((embed as any).state).toBe('error');
+      vi.useFakeTimers();
+    });
+
+    it('should keep the single-result layout for one statement with a trailing semicolon', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement('SELECT 1;');
+      const embed = new Embedded(element);
+
+      await embed.run();
+
+      expect(embed.getContainer()?.querySelector('.sql-workbench-statement')).toBeFalsy();
+      expect(embed.getContainer()?.querySelector('table')).toBeTruthy();
+      vi.useFakeTimers();
+    });
+
+    it('should show error for comment-only scripts', async () => {
+      const element = createSQLElement('-- nothing to run');
+      const embed = new Embedded(element);
+
+      await embed.run();
+
+      const error = embed.getContainer()?.querySelector('.sql-workbench-error');
+      expect(error?.textContent).toContain('No SQL query to execute');
+      expect(duckDBManager.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('query cancellation', () => {
+    /**
+     * Mock a query that only settles when it is cancelled
+     * Returns the cancel() method of the pending queries
+     */
+    function mockPendingQuery() {
+      const cancel = vi.fn(async () => true);
+      vi.mocked(duckDBManager.query).mockImplementation(() => {
+        const pending = new Promise<never>((_, reject) => {
+          cancel.mockImplementation(async () => {
+            reject(new Error('Query was cancelled'));
+            return true;
+          });
+        });
+        return Object.assign(pending, { cancel });
+      });
+      return cancel;
+    }
+
+    it('should cancel the running query when Stop is clicked', async () => {
+      vi.useRealTimers();
+      const cancel = mockPendingQuery();
+      const element = createSQLElement('SELECT * FROM range(100000000)');
+      const embed = new Embedded(element);
+
+      const runPromise = embed.run();
+      await wait(0);
+
+      const runButton = embed.getContainer()?.querySelector('.sql-workbench-button-run') as HTMLButtonElement;
+      runButton.click();
+      await runPromise;
+
+      expect(cancel).toHaveBeenCalledTimes(1);
+      expect((embed as any).state).toBe('cancelled');
+      expect(embed.getContainer()?.querySelector('.sql-workbench-output')?.textContent).toContain('Query cancelled');
+      expect(embed.getContainer()?.querySelector('.sql-workbench-error')).toBeFalsy();
+      expect(runButton.textContent).toBe('Run');
+      vi.useFakeTimers();
+    });
+
+    it('should cancel via the public cancel() method', async () => {
+      vi.useRealTimers();
+      mockPendingQuery();
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element);
+
+      const runPromise = embed.run();
+      await wait(0);
+      await embed.cancel();
+      await runPromise;
+
+      expect((embed as any).state).toBe('cancelled');
+      vi.useFakeTimers();
+    });
+
+    it('should ignore cancel() when no query is running', async () => {
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element);
+
+      await embed.cancel();
+
+      expect(duckDBManager.cancel).not.toHaveBeenCalled();
+    });
+
+    it('should skip remaining statements after cancellation', async () => {
+      vi.useRealTimers();
+      mockPendingQuery();
+      const element = createSQLElement('SELECT 1; SELECT 2');
+      const embed = new Embedded(element);
+
+      const runPromise = embed.run();
+      await wait(0);
+      await embed.cancel();
+      await runPromise;
+
+      expect(duckDBManager.query).toHaveBeenCalledTimes(1);
+      expect(embed.getContainer()?.querySelector('.sql-workbench-statement')).toBeFalsy();
+      expect((embed as any).state).toBe('cancelled');
+      vi.useFakeTimers();
+    });
+
+    it('should cancel automatically when queryTimeout is exceeded', async () => {
+      vi.useRealTimers();
+      const cancel = mockPendingQuery();
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element, { queryTimeout: 50 });
+
+      await embed.run();
+
+      expect(cancel).toHaveBeenCalledTimes(1);
+      expect((embed as any).state).toBe('timeout');
+      const error = embed.getContainer()?.querySelector('.sql-workbench-error-timeout');
+      expect(error?.textContent).toContain('Timed out');
+      expect(error?.textContent).toContain('0.05s');
+      vi.useFakeTimers();
+    });
+
+    it('should not count loading DuckDB against the query timeout', async () => {
+      vi.useRealTimers();
+      // DuckDB loads for 100ms, longer than the timeout, before the query takes 10ms
+      let loaded = false;
+      vi.mocked(duckDBManager.preload).mockImplementation(async () => {
+        await wait(100);
+        loaded = true;
+      });
+      const cancel = vi.fn(async () => true);
+      vi.mocked(duckDBManager.query).mockImplementation(() =>
+        Object.assign(
+          wait(loaded ? 10 : 110).then(() => ({ columns: [], rows: [], rowCount: 0, executionTime: 0 })),
+          { cancel }
+        )
+      );
+      const embed = new Embedded(createSQLElement('SELECT 1'), { queryTimeout: 50 });
+
+      await embed.run();
+
+      expect(cancel).not.toHaveBeenCalled();
+      expect((embed as any).state).toBe('success');
+      vi.useFakeTimers();
+    });
+
+    it('should cancel the running query when the embed is destroyed', async () => {
+      vi.useRealTimers();
+      const cancel = mockPendingQuery();
+      const embed = new Embedded(createSQLElement('SELECT 1'), { queryTimeout: 50 });
+
+      const runPromise = embed.run();
+      await wait(0);
+      embed.destroy();
+      expect(cancel).toHaveBeenCalledTimes(1);
+      await runPromise;
+
+      // The timeout no longer fires
+      await wait(60);
+      expect(cancel).toHaveBeenCalledTimes(1);
+      vi.useFakeTimers();
+    });
+
+    it('should not cancel queries that finish before the timeout', async () => {
+      vi.useRealTimers();
+      const cancel = vi.fn(async () => false);
+      vi.mocked(duckDBManager.query).mockImplementation(() =>
+        Object.assign(Promise.resolve({ columns: [], rows: [], rowCount: 0, executionTime: 0 }), { cancel })
+      );
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element, { queryTimeout: 5000 });
+
+      await embed.run();
+
+      expect(cancel).not.toHaveBeenCalled();
+      expect((embed as any).state).toBe('success');
+      vi.useFakeTimers();
+    });
+  });
+
+  describe('reset method', () => {
+    it('should restore initial code', () => {
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element);
+      const editor = embed.getContainer()?.querySelector('.sql-workbench-editor') as HTMLElement;
+
+      editor.textContent = 'SELECT 42';
+      embed.reset();
+
+      // Normalize whitespace/invisible characters and check
+      const normalizedText = editor.textContent?.replace(/\s+/g, ' ').trim();
+      expect(normalizedText).toBe('SELECT 1');
+    });
+
+    it('should clear output area', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element);
+
+      await embed.run();
+
+      embed.reset();
+
+      const output = embed.getContainer()?.querySelector('.sql-workbench-output');
+      expect(output?.classList.contains('sql-workbench-output-hidden')).toBe(true);
+      expect(output?.textContent).toBe('');
+      vi.useFakeTimers();
+    });
+
+    it('should hide reset button', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element);
+
+      await embed.run();
+
+      const resetButton = embed.getContainer()?.querySelector('.sql-workbench-button-reset');
+      expect(resetButton?.classList.contains('sql-workbench-button-hidden')).toBe(false);
+
+      embed.reset();
+
+      expect(resetButton?.classList.contains('sql-workbench-button-hidden')).toBe(true);
+      vi.useFakeTimers();
+    });
+  });
+
+  describe('destroy method', () => {
+    it('should remove container from DOM', () => {
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element);
+      const container = embed.getContainer();
+
+      embed.destroy();
+
+      expect(document.body.contains(container)).toBe(false);
+    });
+
+    it('should mark embed as destroyed', () => {
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element);
+
+      expect(embed.isDestroyed()).toBe(false);
+
+      embed.destroy();
+
+      expect(embed.isDestroyed()).toBe(true);
+    });
+
+    it('should clear internal references', () => {
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element);
+
+      embed.destroy();
+
+      expect(embed.getContainer()).toBeNull();
+    });
+
+    it('should be safe to call multiple times', () => {
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element);
+
+      embed.destroy();
+      embed.destroy();
+      embed.destroy();
+
+      expect(embed.isDestroyed()).toBe(true);
+    });
+  });
+
+  describe('autorun', () => {
+    let observerCallback: IntersectionObserverCallback | null;
+    let observe: ReturnType<typeof vi.fn>;
+    let disconnect: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      observerCallback = null;
+      observe = vi.fn();
+      disconnect = vi.fn();
+      vi.stubGlobal('IntersectionObserver', vi.fn(function(this: any, callback: IntersectionObserverCallback) {
+        observerCallback = callback;
+        this.observe = observe;
+        this.disconnect = disconnect;
+      }));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    function becomeVisible(isIntersecting = true): void {
+      observerCallback?.([{ isIntersecting } as IntersectionObserverEntry], {} as IntersectionObserver);
+    }
+
+    it('should not run automatically by default', async () => {
+      const element = createSQLElement('SELECT 1');
+      new Embedded(element);
+      await Promise.resolve();
+
+      expect(duckDBManager.query).not.toHaveBeenCalled();
+      expect(IntersectionObserver).not.toHaveBeenCalled();
+    });
+
+    it('should run on load', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element, { autorun: 'load' });
+      const onRun = vi.fn();
+      embed.on('run', onRun);
+
+      await wait(250);
+
+      expect(onRun).toHaveBeenCalledTimes(1);
+      expect(embed.getState()).toBe('success');
+      vi.useFakeTimers();
+    });
+
+    it('should run the first time the embed becomes visible', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element, { autorun: 'visible' });
+
+      expect(observe).toHaveBeenCalledWith(embed.getContainer());
+      becomeVisible(false);
+      expect(duckDBManager.query).not.toHaveBeenCalled();
+
+      becomeVisible();
+      await wait(250);
+
+      expect(duckDBManager.query).toHaveBeenCalledTimes(1);
+      expect(disconnect).toHaveBeenCalled();
+      vi.useFakeTimers();
+    });
+
+    it('should stop observing after a manual run', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element, { autorun: 'visible' });
+
+      await embed.run();
+
+      expect(disconnect).toHaveBeenCalled();
+      vi.useFakeTimers();
+    });
+
+    it('should stop observing when destroyed', () => {
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element, { autorun: 'visible' });
+
+      embed.destroy();
+
+      expect(disconnect).toHaveBeenCalled();
+    });
+
+    it('should fall back to running on load without IntersectionObserver', async () => {
+      vi.useRealTimers();
+      vi.stubGlobal('IntersectionObserver', undefined);
+      const element = createSQLElement('SELECT 1');
+      new Embedded(element, { autorun: 'visible' });
+
+      await wait(250);
+
+      expect(duckDBManager.query).toHaveBeenCalledTimes(1);
+      vi.useFakeTimers();
+    });
+
+    it('should read the mode from data-autorun', () => {
+      const element = createSQLElement('SELECT 1');
+      element.setAttribute('data-autorun', 'visible');
+      new Embedded(element);
+
+      expect(observe).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('programmatic control', () => {
+    it('should return the code with regular spaces', () => {
+      const element = createSQLElement('SELECT a,  b FROM t');
+      const embed = new Embedded(element);
+
+      expect(embed.getCode()).toBe('SELECT a,  b FROM t');
+    });
+
+    it('should set code without running it', async () => {
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element);
+      const onChange = vi.fn();
+      embed.on('change', onChange);
+
+      await embed.setCode('SELECT 2');
+
+      expect(embed.getCode()).toBe('SELECT 2');
+      expect(embed.getContainer()?.querySelector('.sql-workbench-editor')?.innerHTML).toContain('sql-keyword');
+      expect(duckDBManager.query).not.toHaveBeenCalled();
+      expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it('should set code and run it', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element);
+
+      await embed.setCode('SELECT 2', { run: true });
+
+      expect(vi.mocked(duckDBManager.query).mock.calls[0]?.[0]).toBe('SELECT 2');
+      expect(embed.getState()).toBe('success');
+      vi.useFakeTimers();
+    });
+
+    it('should keep the last result until the next failure or reset', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element);
+
+      expect(embed.getLastResult()).toBeNull();
+
+      await embed.run();
+      expect(embed.getLastResult()?.rows).toEqual([[1, 'Alice'], [2, 'Bob']]);
+
+      vi.mocked(duckDBManager.query).mockRejectedValueOnce(new Error('boom'));
+      await embed.run();
+      expect(embed.getLastResult()).toBeNull();
+      expect(embed.getState()).toBe('error');
+
+      await embed.run();
+      embed.reset();
+      expect(embed.getLastResult()).toBeNull();
+      expect(embed.getState()).toBe('idle');
+      vi.useFakeTimers();
+    });
+
+    it('should toggle editing', async () => {
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element, { editable: false });
+      const editor = embed.getContainer()?.querySelector('.sql-workbench-editor') as HTMLElement;
+      const onChange = vi.fn();
+      embed.on('change', onChange);
+
+      embed.setEditable(true);
+      expect(editor.contentEditable).toBe('true');
+
+      editor.textContent = 'SELECT 2';
+      editor.dispatchEvent(new Event('input', { bubbles: true }));
+      await vi.advanceTimersByTimeAsync(150);
+      expect(onChange).toHaveBeenCalledTimes(1);
+
+      embed.setEditable(false);
+      expect(editor.contentEditable).toBe('false');
+    });
+  });
+
+  describe('events', () => {
+    it('should emit run and result events', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element);
+      const onRun = vi.fn();
+      const onResult = vi.fn();
+      embed.on('run', onRun);
+      embed.on('result', onResult);
+
+      await embed.run();
+
+      expect(onRun).toHaveBeenCalledTimes(1);
+      expect(onRun.mock.calls[0]?.[0].sql.replace(/\s+/g, ' ')).toBe('SELECT 1');
+      expect(onResult).toHaveBeenCalledWith(expect.objectContaining({
+        result: expect.objectContaining({ columns: ['id', 'name'], rowCount: 2 }),
+      }));
+      vi.useFakeTimers();
+    });
+
+    it('should emit error events for failed queries', async () => {
+      vi.useRealTimers();
+      vi.mocked(duckDBManager.query).mockRejectedValue(new Error('Table not found'));
+      const element = createSQLElement('SELECT * FROM missing');
+      const embed = new Embedded(element);
+      const onError = vi.fn();
+      embed.on('error', onError);
+
+      await embed.run();
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Table not found', state: 'error' }));
+      vi.useFakeTimers();
+    });
+
+    it('should emit error events with the failed statement of a script', async () => {
+      vi.useRealTimers();
+      vi.mocked(duckDBManager.query)
+        .mockResolvedValueOnce({ columns: [], rows: [], rowCount: 0, executionTime: 1 })
+        .mockRejectedValueOnce(new Error('Syntax error'));
+      const element = createSQLElement('SELECT 1; SELEC 2; SELECT 3');
+      const embed = new Embedded(element);
+      const onError = vi.fn();
+      embed.on('error', onError);
+
+      await embed.run();
+
+      const detail = onError.mock.calls[0]?.[0];
+      expect(detail.message).toBe('Syntax error');
+      expect(detail.statementResults.map((r: { status: string }) => r.status)).toEqual(['success', 'error', 'skipped']);
+      vi.useFakeTimers();
+    });
+
+    it('should emit change events after editing', async () => {
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element);
+      const editor = embed.getContainer()?.querySelector('.sql-workbench-editor') as HTMLElement;
+      const onChange = vi.fn();
+      embed.on('change', onChange);
+
+      editor.textContent = 'SELECT 2';
+      editor.dispatchEvent(new Event('input', { bubbles: true }));
+      await vi.advanceTimersByTimeAsync(150);
+
+      expect(onChange).toHaveBeenCalledTimes(1);
+      expect(onChange.mock.calls[0]?.[0].sql.replace(/\s+/g, ' ')).toBe('SELECT 2');
+    });
+
+    it('should emit reset and destroy events', () => {
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element);
+      const onReset = vi.fn();
+      const onDestroy = vi.fn();
+      embed.on('reset', onReset);
+      embed.on('destroy', onDestroy);
+
+      embed.reset();
+      embed.destroy();
+
+      expect(onReset).toHaveBeenCalledWith({ sql: 'SELECT 1' });
+      expect(onDestroy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop calling handlers after unsubscribing', () => {
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element);
+      const onReset = vi.fn();
+      const unsubscribe = embed.on('reset', onReset);
+
+      unsubscribe();
+      embed.reset();
+
+      expect(onReset).not.toHaveBeenCalled();
+    });
+
+    it('should dispatch DOM events from the container', () => {
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element);
+      const listener = vi.fn();
+      document.addEventListener('sql-workbench:reset', listener);
+
+      embed.reset();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      const event = listener.mock.calls[0]?.[0] as CustomEvent;
+      expect(event.target).toBe(embed.getContainer());
+      expect(event.detail).toEqual({ sql: 'SELECT 1' });
+      document.removeEventListener('sql-workbench:reset', listener);
+    });
+  });
+
+  describe('syntax highlighting', () => {
+    it('should apply syntax highlighting to initial code', () => {
+      const element = createSQLElement('SELECT * FROM users');
+      const embed = new Embedded(element);
+      const editor = embed.getContainer()?.querySelector('.sql-workbench-editor');
+
+      expect(editor?.innerHTML).toContain('sql-keyword');
+    });
+
+    it('should update highlighting on input (debounced)', async () => {
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element);
+      const editor = embed.getContainer()?.querySelector('.sql-workbench-editor') as HTMLElement;
+
+      editor.textContent = 'SELECT * FROM users';
+      editor.dispatchEvent(new Event('input', { bubbles: true }));
+
+      // Advance timers past debounce delay
+      await vi.advanceTimersByTimeAsync(150);
+
+      expect(editor.innerHTML).toContain('sql-keyword');
+    });
+
+  });
+
+  describe('initQueries integration', () => {
+    it('should configure init queries when DuckDB not initialized', async () => {
+      vi.useRealTimers();
+      const element = createSQLElement('SELECT 1');
+      const embed = new Embedded(element, {
+        initQueries: ['INSTALL spatial', 'LOAD spatial'],
+      });
+
+      vi.mocked(duckDBManager.isInitialized).mockReturnValue(false);
+
+      await embed.run();
+
+      expect(duckDBManager.configure).toHaveBeenCalled();
+      expect(duckDBManager.configureInitQueries).toHaveBeenCalledWith([
+        'INSTALL spatial',
+        'LOAD spatial',
+      ]);
 
       vi.useFakeTimers();
     });
@@ -1018,4 +2046,362 @@ describe('Embedded', () => {
       expect(windowOpenSpy).not.toHaveBeenCalled();
     });
   });
+
+  describe('database isolation', () => {
+    it('should use the shared connection by default', async () => {
+      vi.useRealTimers();
+      const embed = new Embedded(createSQLElement('SELECT 1'));
+
+      await embed.run();
+
+      expect(duckDBManager.retainSession).not.toHaveBeenCalled();
+      expect(vi.mocked(duckDBManager.query).mock.calls[0]?.[1]?.session).toBeUndefined();
+      vi.useFakeTimers();
+    });
+
+    it('should give each embed its own session in embed mode', async () => {
+      vi.useRealTimers();
+      const first = new Embedded(createSQLElement('SELECT 1'), { isolation: 'embed', privateDatabase: true });
+      const second = new Embedded(createSQLElement('SELECT 2'), { isolation: 'embed' });
+
+      await first.run();
+      await second.run();
+
+      const [firstSession, secondSession] = vi.mocked(duckDBManager.query).mock.calls.map(([, options]) => options?.session);
+      expect(firstSession?.id).toMatch(/^embed:/);
+      expect(firstSession?.privateDatabase).toBe(true);
+      expect(secondSession?.id).not.toBe(firstSession?.id);
+      vi.useFakeTimers();
+    });
+
+    it('should share a session between the cells of a notebook in group mode', () => {
+      const first = new Embedded(createSQLElement('SELECT 1'), { isolation: 'group', notebook: 'isolated' });
+      const second = new Embedded(createSQLElement('SELECT 2'), { isolation: 'group', notebook: 'isolated' });
+
+      expect(duckDBManager.retainSession).toHaveBeenCalledTimes(2);
+      expect(duckDBManager.retainSession).toHaveBeenCalledWith('notebook:isolated');
+
+      first.destroy();
+      second.destroy();
+      expect(duckDBManager.releaseSession).toHaveBeenCalledTimes(2);
+      expect(duckDBManager.releaseSession).toHaveBeenCalledWith('notebook:isolated');
+    });
+
+    it('should cancel only its own query on a shared connection', async () => {
+      vi.useRealTimers();
+      const cancels = [vi.fn(async () => true), vi.fn(async () => true)];
+      let calls = 0;
+      vi.mocked(duckDBManager.query).mockImplementation(() =>
+        Object.assign(new Promise<never>(() => {}), { cancel: cancels[calls++]! })
+      );
+      const first = new Embedded(createSQLElement('SELECT 1'));
+      const second = new Embedded(createSQLElement('SELECT 2'));
+
+      void first.run();
+      void second.run();
+      await wait(0);
+      await first.cancel();
+
+      expect(cancels[0]).toHaveBeenCalledTimes(1);
+      expect(cancels[1]).not.toHaveBeenCalled();
+      vi.useFakeTimers();
+    });
+
+    it('should read the isolation mode from data attributes', () => {
+      const element = createSQLElement('SELECT 1');
+      element.setAttribute('data-isolation', 'embed');
+      new Embedded(element);
+
+      expect(duckDBManager.retainSession).toHaveBeenCalledWith(expect.stringMatching(/^embed:/));
+    });
+  });
+
+  describe('query parameters', () => {
+    function parameterInput(embed: Embedded, name: string): HTMLInputElement | HTMLSelectElement | null | undefined {
+      return embed.getContainer()?.querySelector(`[data-parameter="${name}"]`);
+    }
+
+    it('should render typed controls for the parameters used in the SQL', () => {
+      const embed = new Embedded(createSQLElement("SELECT * FROM trips WHERE fare > $min_fare AND day = $day AND note = '$x'"), {
+        parameters: {
+          min_fare: { type: 'number', value: 10, label: 'Minimum fare' },
+          day: { type: 'date', value: '2024-01-31' },
+          unused: { type: 'text' },
+        },
+      });
+
+      const parameters = embed.getContainer()?.querySelector('.sql-workbench-parameters');
+      expect(parameters?.classList.contains('sql-workbench-parameters-hidden')).toBe(false);
+      expect(parameters?.querySelectorAll('.sql-workbench-parameter-input')).toHaveLength(2);
+      expect(parameterInput(embed, 'min_fare')?.getAttribute('type')).toBe('number');
+      expect(parameterInput(embed, 'min_fare')?.value).toBe('10');
+      expect(parameterInput(embed, 'day')?.getAttribute('type')).toBe('date');
+      expect(parameters?.textContent).toContain('Minimum fare');
+      expect(embed.getParameters()).toEqual({ min_fare: 10, day: '2024-01-31' });
+    });
+
+    it('should hide the parameter bar without parameters', () => {
+      const embed = new Embedded(createSQLElement('SELECT 1'));
+
+      const parameters = embed.getContainer()?.querySelector('.sql-workbench-parameters');
+      expect(parameters?.classList.contains('sql-workbench-parameters-hidden')).toBe(true);
+    });
+
+    it('should render select controls for parameters with options', () => {
+      const embed = new Embedded(createSQLElement('SELECT * FROM t WHERE year = $year'), {
+        parameters: { year: { options: [2023, 2024] } },
+      });
+
+      const select = parameterInput(embed, 'year') as HTMLSelectElement;
+      expect(select.tagName).toBe('SELECT');
+      expect(Array.from(select.options).map((option) => option.value)).toEqual(['2023', '2024']);
+      expect(embed.getParameters()).toEqual({ year: 2023 });
+    });
+
+    it('should bind parameter values instead of interpolating them', async () => {
+      vi.useRealTimers();
+      const embed = new Embedded(createSQLElement('SELECT * FROM trips WHERE fare > $min_fare AND zone = $zone'), {
+        parameters: { min_fare: { type: 'number', value: 10 } },
+      });
+
+      await embed.run({ zone: "JFK'" });
+
+      expect(duckDBManager.query).toHaveBeenCalledWith('SELECT * FROM trips WHERE fare > $1 AND zone = $2', {
+        maxRows: DEFAULT_CONFIG.maxRows,
+        session: undefined,
+        params: [10, "JFK'"],
+      });
+      expect(parameterInput(embed, 'zone')?.value).toBe("JFK'");
+      vi.useFakeTimers();
+    });
+
+    it('should re-run the query when a value changes after a run', async () => {
+      vi.useRealTimers();
+      const embed = new Embedded(createSQLElement('SELECT * FROM trips WHERE fare > $min_fare'), {
+        parameters: { min_fare: { type: 'number', value: 10 } },
+      });
+      const input = parameterInput(embed, 'min_fare')!;
+
+      // Changing a value before the first run does not run the query
+      input.value = '15';
+      input.dispatchEvent(new Event('change', { bubbles: true }));
+      expect(duckDBManager.query).not.toHaveBeenCalled();
+
+      await embed.run();
+      input.value = '20';
+      input.dispatchEvent(new Event('change', { bubbles: true }));
+      await vi.waitFor(() => expect(duckDBManager.query).toHaveBeenCalledTimes(2));
+
+      expect(vi.mocked(duckDBManager.query).mock.calls.map(([, options]) => options?.params)).toEqual([[15], [20]]);
+      await vi.waitFor(() => expect(embed.getState()).toBe('success'));
+      vi.useFakeTimers();
+    });
+
+    it('should bind parameters per statement in scripts', async () => {
+      vi.useRealTimers();
+      const embed = new Embedded(createSQLElement('SELECT $a; SELECT $b, $a'));
+
+      await embed.run({ a: 'x', b: 'y' });
+
+      expect(vi.mocked(duckDBManager.query).mock.calls.map(([sql, options]) => [sql, options?.params])).toEqual([
+        ['SELECT $1', ['x']],
+        ['SELECT $1, $2', ['y', 'x']],
+      ]);
+      vi.useFakeTimers();
+    });
+
+    it('should update the controls when the SQL changes', async () => {
+      const embed = new Embedded(createSQLElement('SELECT $a'));
+
+      await embed.setCode('SELECT $a, $b');
+
+      expect(parameterInput(embed, 'b')).toBeTruthy();
+      expect(embed.getParameters()).toEqual({ a: '', b: '' });
+    });
+
+    it('should export Parquet files with the bound parameters', async () => {
+      vi.useRealTimers();
+      const clickSpy = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+      vi.mocked(duckDBManager.exportParquet).mockResolvedValue(new Uint8Array());
+      const embed = new Embedded(createSQLElement('SELECT * FROM t WHERE x > $x'));
+      await embed.run({ x: 5 });
+
+      await embed.exportResult('parquet');
+
+      expect(duckDBManager.exportParquet).toHaveBeenCalledWith('SELECT * FROM t WHERE x > $1', undefined, [5]);
+      clickSpy.mockRestore();
+      vi.useFakeTimers();
+    });
+  });
+
+  describe('local files', () => {
+    const file = new File(['id,fare\n1,12.5\n'], 'trips.csv', { type: 'text/csv' });
+
+    function drop(target: HTMLElement, files: File[]): Event {
+      const event = new Event('drop', { bubbles: true, cancelable: true });
+      Object.defineProperty(event, 'dataTransfer', { value: { types: ['Files'], files } });
+      target.dispatchEvent(event);
+      return event;
+    }
+
+    it('should not offer local files by default', () => {
+      const embed = new Embedded(createSQLElement('SELECT 1'));
+
+      expect(embed.getContainer()?.querySelector('.sql-workbench-button-add-file')).toBeNull();
+      expect(embed.getContainer()?.querySelector('.sql-workbench-files')).toBeNull();
+    });
+
+    it('should register added files, list them and insert a FROM clause', async () => {
+      const embed = new Embedded(createSQLElement('SELECT *'), { localFiles: true });
+
+      await embed.addFiles([file]);
+
+      expect(duckDBManager.registerLocalFile).toHaveBeenCalledWith('trips.csv', file);
+      expect(embed.getFiles()).toEqual(['trips.csv']);
+      const files = embed.getContainer()?.querySelector('.sql-workbench-files');
+      expect(files?.classList.contains('sql-workbench-files-hidden')).toBe(false);
+      expect(files?.textContent).toContain('trips.csv');
+      expect(files?.textContent).toContain('15 B');
+      expect(embed.getCode()).toBe("SELECT *\nFROM 'trips.csv'");
+    });
+
+    it('should insert the FROM clause at the cursor', async () => {
+      const embed = new Embedded(createSQLElement('SELECT * WHERE fare > 10'), { localFiles: true });
+      document.body.appendChild(embed.getContainer()!);
+      const editor = embed.getContainer()?.querySelector<HTMLElement>('.sql-workbench-editor');
+      const range = document.createRange();
+      const textNode = document.createNodeIterator(editor!, NodeFilter.SHOW_TEXT);
+      let node = textNode.nextNode();
+      // Place the cursor after "SELECT * "
+      let offset = 9;
+      while (node && (node.textContent?.length ?? 0) < offset) {
+        offset -= node.textContent?.length ?? 0;
+        node = textNode.nextNode();
+      }
+      range.setStart(node!, offset);
+      range.collapse(true);
+      window.getSelection()?.removeAllRanges();
+      window.getSelection()?.addRange(range);
+
+      await embed.addFiles([file]);
+
+      expect(embed.getCode()).toBe("SELECT * FROM 'trips.csv'WHERE fare > 10");
+      window.getSelection()?.removeAllRanges();
+    });
+
+    it('should register files dropped onto the embed', async () => {
+      const embed = new Embedded(createSQLElement(''), { localFiles: true });
+
+      const event = drop(embed.getContainer()!, [file]);
+      await vi.waitFor(() => expect(embed.getFiles()).toEqual(['trips.csv']));
+
+      expect(event.defaultPrevented).toBe(true);
+      expect(embed.getCode()).toBe("FROM 'trips.csv'");
+    });
+
+    it('should register files chosen with the file picker', async () => {
+      const embed = new Embedded(createSQLElement('SELECT 1'), { localFiles: true });
+      const input = embed.getContainer()?.querySelector<HTMLInputElement>('.sql-workbench-file-input');
+      const clickSpy = vi.spyOn(input!, 'click').mockImplementation(() => {});
+
+      embed.getContainer()?.querySelector<HTMLButtonElement>('.sql-workbench-button-add-file')?.click();
+      expect(clickSpy).toHaveBeenCalled();
+
+      Object.defineProperty(input, 'files', { value: [file], configurable: true });
+      input?.dispatchEvent(new Event('change'));
+      await vi.waitFor(() => expect(duckDBManager.registerLocalFile).toHaveBeenCalledWith('trips.csv', file));
+    });
+
+    it('should show registration errors', async () => {
+      vi.mocked(duckDBManager.registerLocalFile).mockRejectedValueOnce(
+        new Error('Failed to register file trips.csv: Permission denied')
+      );
+      const embed = new Embedded(createSQLElement('SELECT 1'), { localFiles: true });
+
+      await embed.addFiles([file]);
+
+      expect(embed.getContainer()?.textContent).toContain('Permission denied');
+      expect(embed.getFiles()).toEqual([]);
+      expect(embed.getCode()).toBe('SELECT 1');
+    });
+
+    it('should clear the file list when DuckDB is closed', async () => {
+      const stopCloseUpdates = vi.fn();
+      let closeHandler: (() => void) | undefined;
+      vi.mocked(duckDBManager.onClose).mockImplementation((handler) => {
+        closeHandler = handler;
+        return stopCloseUpdates;
+      });
+      const embed = new Embedded(createSQLElement('SELECT 1'), { localFiles: true });
+      await embed.addFiles([file]);
+
+      closeHandler?.();
+
+      expect(embed.getFiles()).toEqual([]);
+      const files = embed.getContainer()?.querySelector('.sql-workbench-files');
+      expect(files?.classList.contains('sql-workbench-files-hidden')).toBe(true);
+
+      embed.destroy();
+      expect(stopCloseUpdates).toHaveBeenCalled();
+    });
+  });
+
+  describe('setup queries', () => {
+    it('should run setup queries before the visible query', async () => {
+      vi.useRealTimers();
+      const embed = new Embedded(createSQLElement('SELECT * FROM t'), {
+        setupQueries: ['CREATE TABLE t AS SELECT 1 AS x'],
+      });
+
+      await embed.run();
+
+      expect(duckDBManager.runSetupQueries).toHaveBeenCalledWith(['CREATE TABLE t AS SELECT 1 AS x'], undefined);
+      expect(vi.mocked(duckDBManager.runSetupQueries).mock.invocationCallOrder[0])
+        .toBeLessThan(vi.mocked(duckDBManager.query).mock.invocationCallOrder[0]!);
+      vi.useFakeTimers();
+    });
+
+    it('should read setup scripts preceding the element', async () => {
+      vi.useRealTimers();
+      document.body.innerHTML = `
+        <script type="text/x-sql-setup">CREATE TABLE t (id INT);</script>
+        <script type="text/x-sql-setup">INSERT INTO t VALUES (1);</script>
+        <pre>SELECT * FROM t</pre>
+      `;
+      const embed = new Embedded(document.querySelector('pre')!, { setupQueries: ['SET VARIABLE v = 1'] });
+
+      await embed.run();
+
+      expect(duckDBManager.runSetupQueries).toHaveBeenCalledWith(
+        ['SET VARIABLE v = 1', 'CREATE TABLE t (id INT)', 'INSERT INTO t VALUES (1)'],
+        undefined
+      );
+      expect(embed.getCode()).toBe('SELECT * FROM t');
+      document.body.innerHTML = '';
+      vi.useFakeTimers();
+    });
+
+    it('should not run setup queries without any configured', async () => {
+      vi.useRealTimers();
+      const embed = new Embedded(createSQLElement('SELECT 1'));
+
+      await embed.run();
+
+      expect(duckDBManager.runSetupQueries).not.toHaveBeenCalled();
+      vi.useFakeTimers();
+    });
+
+    it('should show setup failures as query errors', async () => {
+      vi.useRealTimers();
+      vi.mocked(duckDBManager.runSetupQueries).mockRejectedValue(new Error('Setup query failed: Catalog Error'));
+      const embed = new Embedded(createSQLElement('SELECT * FROM t'), { setupQueries: ['CREATE TABLE t AS SELECT * FROM missing'] });
+
+      await embed.run();
+
+      expect(embed.getState()).toBe('error');
+      expect(embed.getContainer()?.textContent).toContain('Setup query failed: Catalog Error');
+      expect(duckDBManager.query).not.toHaveBeenCalled();
+      vi.useFakeTimers();
+    });
+  });
 });
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from '../event-emitter';
+
+interface TestEvents {
+  ping: { count: number };
+  done: Record<string, never>;
+}
+
+describe('event-emitter', () => {
+  it('should call handlers with the event detail', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const handler = vi.fn();
+    emitter.on('ping', handler);
+
+    emitter.emit('ping', { count: 1 });
+
+    expect(handler).toHaveBeenCalledWith({ count: 1 });
+  });
+
+  it('should only call handlers of the emitted event', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const handler = vi.fn();
+    emitter.on('done', handler);
+
+    emitter.emit('ping', { count: 1 });
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should remove handlers with off() and the returned function', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const first = vi.fn();
+    const second = vi.fn();
+    emitter.on('ping', first);
+    const unsubscribe = emitter.on('ping', second);
+
+    emitter.off('ping', first);
+    unsubscribe();
+    emitter.emit('ping', { count: 1 });
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('should keep calling handlers when one throws', () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const emitter = new EventEmitter<TestEvents>();
+    const handler = vi.fn();
+    emitter.on('ping', () => {
+      throw new Error('boom');
+    });
+    emitter.on('ping', handler);
+
+    emitter.emit('ping', { count: 1 });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(consoleErrorSpy).toHaveBeenCalledWith('Error in ping event handler:', expect.any(Error));
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should remove all handlers with clear()', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const handler = vi.fn();
+    emitter.on('ping', handler);
+
+    emitter.clear();
+    emitter.emit('ping', { count: 1 });
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
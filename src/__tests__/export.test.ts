@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+import { toDelimited, toJSON, toMarkdown, serializeResult, downloadBlob, copyToClipboard } from '../export';
+import { QueryResult } from '../types';
+
+const result: QueryResult = {
+  columns: ['id', 'name', 'joined'],
+  columnTypes: [
+    { name: 'id', type: 'BIGINT', kind: 'integer' },
+    { name: 'name', type: 'VARCHAR', kind: 'string' },
+    { name: 'joined', type: 'DATE', kind: 'date' },
+  ],
+  rows: [
+    [1, 'Alice', new Date(Date.UTC(2024, 0, 15))],
+    [2, 'Bob, "Jr."', null],
+  ],
+  rowCount: 2,
+  executionTime: 5,
+};
+
+describe('export', () => {
+  describe('toDelimited', () => {
+    it('should serialize CSV with quoting', () => {
+      expect(toDelimited(result, ',')).toBe(
+        'id,name,joined\n1,Alice,2024-01-15\n2,"Bob, ""Jr.""",\n'
+      );
+    });
+
+    it('should serialize TSV', () => {
+      expect(toDelimited(result, '\t')).toBe(
+        'id\tname\tjoined\n1\tAlice\t2024-01-15\n2\t"Bob, ""Jr."""\t\n'
+      );
+    });
+
+    it('should quote fields containing newlines', () => {
+      const multiline: QueryResult = { columns: ['note'], rows: [['a\nb']], rowCount: 1, executionTime: 0 };
+
+      expect(toDelimited(multiline, ',')).toBe('note\n"a\nb"\n');
+    });
+  });
+
+  describe('toJSON', () => {
+    it('should serialize rows as objects', () => {
+      expect(JSON.parse(toJSON(result))).toEqual([
+        { id: 1, name: 'Alice', joined: '2024-01-15T00:00:00.000Z' },
+        { id: 2, name: 'Bob, "Jr."', joined: null },
+      ]);
+    });
+
+    it('should write large integers as strings', () => {
+      const big: QueryResult = { columns: ['n'], rows: [[2n ** 60n]], rowCount: 1, executionTime: 0 };
+
+      expect(JSON.parse(toJSON(big))).toEqual([{ n: '1152921504606846976' }]);
+    });
+  });
+
+  describe('toMarkdown', () => {
+    it('should serialize a Markdown table', () => {
+      const piped: QueryResult = { columns: ['a', 'b'], rows: [['x|y', null]], rowCount: 1, executionTime: 0 };
+
+      expect(toMarkdown(piped)).toBe('| a | b |\n| --- | --- |\n| x\\|y |  |\n');
+    });
+  });
+
+  describe('serializeResult', () => {
+    it('should dispatch on the format', () => {
+      expect(serializeResult(result, 'csv')).toBe(toDelimited(result, ','));
+      expect(serializeResult(result, 'markdown')).toBe(toMarkdown(result));
+    });
+  });
+
+  describe('downloadBlob', () => {
+    it('should click a temporary download link', () => {
+      const clickSpy = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+      downloadBlob('a,b\n', 'result.csv', 'text/csv');
+
+      expect(URL.createObjectURL).toHaveBeenCalledWith(expect.any(Blob));
+      expect(clickSpy).toHaveBeenCalledTimes(1);
+      expect(clickSpy.mock.contexts[0]).toMatchObject({ download: 'result.csv', href: 'blob:mock-url' });
+      expect(document.querySelector('a')).toBeNull();
+      clickSpy.mockRestore();
+    });
+  });
+
+  describe('copyToClipboard', () => {
+    it('should write text to the clipboard', async () => {
+      const writeText = vi.fn(() => Promise.resolve());
+      Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+
+      await copyToClipboard('a\tb\n');
+
+      expect(writeText).toHaveBeenCalledWith('a\tb\n');
+    });
+
+    it('should throw when the clipboard is unavailable', async () => {
+      Object.defineProperty(navigator, 'clipboard', { value: undefined, configurable: true });
+
+      await expect(copyToClipboard('x')).rejects.toThrow('Clipboard access is not available');
+    });
+  });
+});
@@ -225,6 +225,23 @@ describe('index (main entry point)', () => {
       expect(container?.getAttribute('data-theme')).toBe('myTheme');
     });
 
+    it('should preload DuckDB when configured', () => {
+      createSQLElement('SELECT 1');
+      SQLWorkbench.config({ preload: 'immediate' });
+
+      SQLWorkbench.init();
+
+      expect(duckDBManager.preload).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not preload DuckDB by default', () => {
+      createSQLElement('SELECT 1');
+
+      SQLWorkbench.init();
+
+      expect(duckDBManager.preload).not.toHaveBeenCalled();
+    });
+
     it('should handle missing document gracefully', () => {
       const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
 
@@ -244,6 +261,29 @@ describe('index (main entry point)', () => {
     });
   });
 
+  describe('registerTable', () => {
+    it('should configure DuckDB and register the table', async () => {
+      SQLWorkbench.config({ duckdbVersion: '1.30.0' });
+      const rows = [{ id: 1 }];
+
+      await SQLWorkbench.registerTable('items', rows, { format: 'json' });
+
+      expect(duckDBManager.configure).toHaveBeenCalledWith(expect.objectContaining({ version: '1.30.0' }));
+      expect(duckDBManager.registerTable).toHaveBeenCalledWith('items', rows, { format: 'json' });
+    });
+  });
+
+  describe('resetDatabase', () => {
+    it('should configure persistence and reset the database', async () => {
+      SQLWorkbench.config({ persistence: 'notes' });
+
+      await SQLWorkbench.resetDatabase();
+
+      expect(duckDBManager.configure).toHaveBeenCalledWith(expect.objectContaining({ persistence: 'notes' }));
+      expect(duckDBManager.resetDatabase).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('destroy', () => {
     it('should destroy all embeds', () => {
       createSQLElement('SELECT 1');
@@ -339,6 +379,108 @@ describe('index (main entry point)', () => {
       const containers = document.querySelectorAll('.sql-workbench-container');
       expect(containers.length).toBe(0);
     });
+
+    it('should destroy embeds inside a removed ancestor', () => {
+      const wrapper = document.createElement('section');
+      wrapper.appendChild(createSQLElement('SELECT 1'));
+      document.body.appendChild(wrapper);
+      SQLWorkbench.init();
+      const destroy = vi.spyOn(SQLWorkbench.Embedded.prototype, 'destroy');
+
+      wrapper.remove();
+      const observerCallback = (MutationObserver as any).mock.calls[0][0];
+      observerCallback([{ type: 'childList', addedNodes: [], removedNodes: [wrapper] }]);
+
+      expect(destroy).toHaveBeenCalledTimes(1);
+      expect(wrapper.querySelector('.sql-workbench-container')).toBeNull();
+      destroy.mockRestore();
+    });
+  });
+
+  describe('MutationObserver upgrades', () => {
+    function notifyAdded(nodes: Node[]): void {
+      const observerCallback = (MutationObserver as any).mock.calls[0][0];
+      observerCallback([{ type: 'childList', addedNodes: nodes, removedNodes: [] }]);
+    }
+
+    function appendBlock(sql: string): HTMLElement {
+      const wrapper = document.createElement('div');
+      wrapper.innerHTML = `<pre class="sql-workbench-embedded"><code>${sql}</code></pre>`;
+      document.body.appendChild(wrapper);
+      return wrapper;
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should upgrade matching elements added after init', () => {
+      SQLWorkbench.init();
+      const wrapper = appendBlock('SELECT 1');
+
+      notifyAdded([wrapper]);
+      expect(document.querySelectorAll('.sql-workbench-container').length).toBe(0);
+
+      vi.advanceTimersByTime(50);
+      expect(document.querySelectorAll('.sql-workbench-container').length).toBe(1);
+    });
+
+    it('should upgrade added elements that match the selector themselves', () => {
+      SQLWorkbench.init();
+      const wrapper = appendBlock('SELECT 1');
+      const pre = wrapper.querySelector('pre')!;
+
+      notifyAdded([pre]);
+      vi.advanceTimersByTime(50);
+
+      expect(wrapper.querySelector('.sql-workbench-container')).toBeTruthy();
+    });
+
+    it('should batch multiple insertions into one scan', () => {
+      SQLWorkbench.init();
+      const first = appendBlock('SELECT 1');
+      notifyAdded([first]);
+      vi.advanceTimersByTime(20);
+      const second = appendBlock('SELECT 2');
+      notifyAdded([second, second.querySelector('pre')!]);
+
+      vi.advanceTimersByTime(50);
+
+      expect(document.querySelectorAll('.sql-workbench-container').length).toBe(2);
+    });
+
+    it('should skip nodes removed before the scan', () => {
+      SQLWorkbench.init();
+      const wrapper = appendBlock('SELECT 1');
+      notifyAdded([wrapper]);
+      wrapper.remove();
+
+      vi.advanceTimersByTime(50);
+
+      expect(wrapper.querySelector('.sql-workbench-container')).toBeNull();
+    });
+
+    it('should not upgrade added elements when observeDOM is disabled', () => {
+      SQLWorkbench.config({ observeDOM: false });
+      SQLWorkbench.init();
+      const wrapper = appendBlock('SELECT 1');
+
+      notifyAdded([wrapper]);
+      vi.advanceTimersByTime(50);
+
+      expect(document.querySelectorAll('.sql-workbench-container').length).toBe(0);
+    });
+
+    it('should create a single observer across init calls', () => {
+      SQLWorkbench.init();
+      SQLWorkbench.init();
+
+      expect(MutationObserver).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('automatic initialization', () => {
@@ -1,10 +1,13 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { duckDBManager } from '../duckdb-manager';
+import { configureLogger } from '../logger';
+import { createMockArrowReader } from './test-utils';
 
 describe('initQueries feature', () => {
   // Mock DuckDB objects
   const mockConnection = {
     query: vi.fn(),
+    send: vi.fn(),
     close: vi.fn(),
   };
 
@@ -43,7 +46,7 @@ describe('initQueries feature', () => {
     (duckDBManager as any).db = null;
     (duckDBManager as any).connection = null;
     (duckDBManager as any).initPromise = null;
-    (duckDBManager as any).registeredFiles = new Set();
+    (duckDBManager as any).registeredFiles = new Map();
     (duckDBManager as any).duckdbModule = null;
 
     // Reset init queries state
@@ -71,6 +74,7 @@ describe('initQueries feature', () => {
 
   afterEach(() => {
     vi.clearAllMocks();
+    configureLogger('warn');
   });
 
   describe('configureInitQueries', () => {
@@ -166,16 +170,30 @@ describe('initQueries feature', () => {
     it('should log execution progress', async () => {
       duckDBManager.configureInitQueries(['INSTALL spatial', 'LOAD spatial']);
 
-      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const sink = { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() };
+      configureLogger({ level: 'debug', sink });
 
       await (duckDBManager as any).executeInitQueries();
 
-      expect(consoleLogSpy).toHaveBeenCalledWith('Executing 2 initialization queries...');
-      expect(consoleLogSpy).toHaveBeenCalledWith('Init query [1/2]: INSTALL spatial');
-      expect(consoleLogSpy).toHaveBeenCalledWith('Init query [2/2]: LOAD spatial');
-      expect(consoleLogSpy).toHaveBeenCalledWith('Initialization queries completed successfully');
+      expect(sink.info).toHaveBeenCalledWith('Executing 2 initialization queries...');
+      expect(sink.debug).toHaveBeenCalledWith('Init query [1/2]: INSTALL spatial');
+      expect(sink.debug).toHaveBeenCalledWith('Init query [2/2]: LOAD spatial');
+      expect(sink.info).toHaveBeenCalledWith('Initialization queries completed successfully');
+    });
 
-      consoleLogSpy.mockRestore();
+    it('should not log progress at the default log level', async () => {
+      duckDBManager.configureInitQueries(['INSTALL spatial']);
+
+      const consoleInfoSpy = vi.spyOn(console, 'info').mockImplementation(() => {});
+      const consoleDebugSpy = vi.spyOn(console, 'debug').mockImplementation(() => {});
+
+      await (duckDBManager as any).executeInitQueries();
+
+      expect(consoleInfoSpy).not.toHaveBeenCalled();
+      expect(consoleDebugSpy).not.toHaveBeenCalled();
+
+      consoleInfoSpy.mockRestore();
+      consoleDebugSpy.mockRestore();
     });
 
     it('should handle errors and allow retry', async () => {
@@ -211,15 +229,15 @@ describe('initQueries feature', () => {
       (duckDBManager as any).db = mockDb;
       (duckDBManager as any).connection = mockConnection;
 
-      // Mock query result
-      mockConnection.query.mockResolvedValue({
+      // Mock user query result
+      mockConnection.send.mockResolvedValue(createMockArrowReader({
         schema: {
           fields: [{ name: 'result', type: { toString: () => 'Int32' } }],
         },
         numRows: 1,
         numCols: 1,
         getChildAt: () => ({ get: () => 42 }),
-      });
+      }));
     });
 
     it('should execute init queries before user query', async () => {
@@ -227,11 +245,14 @@ describe('initQueries feature', () => {
 
       await duckDBManager.query('SELECT 42 AS result');
 
-      // Init queries + user query
-      expect(mockConnection.query).toHaveBeenCalledTimes(3);
+      // Init queries run directly, the user query is sent as a pending query
+      expect(mockConnection.query).toHaveBeenCalledTimes(2);
       expect(mockConnection.query).toHaveBeenNthCalledWith(1, 'INSTALL spatial');
       expect(mockConnection.query).toHaveBeenNthCalledWith(2, 'LOAD spatial');
-      expect(mockConnection.query).toHaveBeenNthCalledWith(3, 'SELECT 42 AS result');
+      expect(mockConnection.send).toHaveBeenCalledWith('SELECT 42 AS result', true);
+      expect(mockConnection.query.mock.invocationCallOrder[1]).toBeLessThan(
+        mockConnection.send.mock.invocationCallOrder[0]!
+      );
     });
 
     it('should not re-execute init queries on subsequent user queries', async () => {
@@ -241,23 +262,17 @@ describe('initQueries feature', () => {
       await duckDBManager.query('SELECT 2');
 
       // Init query once + 2 user queries
-      expect(mockConnection.query).toHaveBeenCalledTimes(3);
+      expect(mockConnection.query).toHaveBeenCalledTimes(1);
       expect(mockConnection.query).toHaveBeenNthCalledWith(1, 'INSTALL spatial');
-      expect(mockConnection.query).toHaveBeenNthCalledWith(2, 'SELECT 1');
-      expect(mockConnection.query).toHaveBeenNthCalledWith(3, 'SELECT 2');
+      expect(mockConnection.send).toHaveBeenCalledTimes(2);
+      expect(mockConnection.send).toHaveBeenNthCalledWith(1, 'SELECT 1', true);
+      expect(mockConnection.send).toHaveBeenNthCalledWith(2, 'SELECT 2', true);
     });
 
     it('should block user query if init query fails', async () => {
       duckDBManager.configureInitQueries(['INVALID SQL']);
 
-      mockConnection.query
-        .mockRejectedValueOnce(new Error('Syntax error'))
-        .mockResolvedValueOnce({
-          schema: { fields: [{ name: 'result', type: { toString: () => 'Int32' } }] },
-          numRows: 1,
-          numCols: 1,
-          getChildAt: () => ({ get: () => 42 }),
-        });
+      mockConnection.query.mockRejectedValueOnce(new Error('Syntax error'));
 
       await expect(duckDBManager.query('SELECT 42')).rejects.toThrow(
         'Initialization query failed: Syntax error'
@@ -265,6 +280,7 @@ describe('initQueries feature', () => {
 
       // User query should not be executed
       expect(mockConnection.query).toHaveBeenCalledTimes(1);
+      expect(mockConnection.send).not.toHaveBeenCalled();
     });
   });
 
@@ -308,7 +324,8 @@ describe('initQueries feature', () => {
         'LOAD json',
       ]);
 
-      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      configureLogger('info');
+      const consoleLogSpy = vi.spyOn(console, 'info').mockImplementation(() => {});
 
       await (duckDBManager as any).executeInitQueries();
 
@@ -484,7 +501,8 @@ describe('initQueries feature', () => {
 
       duckDBManager.configureInitQueries(queries);
 
-      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      configureLogger('info');
+      const consoleLogSpy = vi.spyOn(console, 'info').mockImplementation(() => {});
 
       await (duckDBManager as any).executeInitQueries();
 
@@ -542,12 +560,7 @@ describe('initQueries feature', () => {
       duckDBManager.configureInitQueries(initQueries);
 
       // Mock result for the weather query
-      mockConnection.query.mockResolvedValueOnce({
-        schema: { fields: [] },
-        numRows: 0,
-        numCols: 0,
-        getChildAt: () => ({ get: () => null }),
-      }).mockResolvedValueOnce({
+      mockConnection.send.mockResolvedValueOnce(createMockArrowReader({
         schema: {
           fields: [
             { name: 'station', type: { toString: () => 'VARCHAR' } },
@@ -565,20 +578,21 @@ describe('initQueries feature', () => {
             return null;
           },
         }),
-      });
+      }));
 
-      await duckDBManager.query('SELECT * FROM weather.weather LIMIT 10');
+      const result = await duckDBManager.query('SELECT * FROM weather.weather LIMIT 10');
 
       // Init query + user query
-      expect(mockConnection.query).toHaveBeenCalledTimes(2);
+      expect(mockConnection.query).toHaveBeenCalledTimes(1);
       expect(mockConnection.query).toHaveBeenNthCalledWith(
         1,
         "ATTACH 'https://www.ssp.sh/de/weather-noas.duckdb' AS weather (READ_ONLY)"
       );
-      expect(mockConnection.query).toHaveBeenNthCalledWith(
-        2,
-        'SELECT * FROM weather.weather LIMIT 10'
+      expect(mockConnection.send).toHaveBeenCalledWith(
+        'SELECT * FROM weather.weather LIMIT 10',
+        true
       );
+      expect(result.rowCount).toBe(10);
     });
 
     it('should attach multiple databases', async () => {
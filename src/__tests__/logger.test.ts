@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { logger, configureLogger, getLogLevel } from '../logger';
+import { setGlobalConfig, getGlobalConfig } from '../config-store';
+import { DEFAULT_CONFIG } from '../types';
+
+function createSink() {
+  return { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() };
+}
+
+describe('logger', () => {
+  afterEach(() => {
+    configureLogger('warn');
+  });
+
+  it('should log warnings and errors by default', () => {
+    const sink = createSink();
+    configureLogger({ sink });
+
+    logger.error('error');
+    logger.warn('warn');
+    logger.info('info');
+    logger.debug('debug');
+
+    expect(getLogLevel()).toBe('warn');
+    expect(sink.error).toHaveBeenCalledWith('error');
+    expect(sink.warn).toHaveBeenCalledWith('warn');
+    expect(sink.info).not.toHaveBeenCalled();
+    expect(sink.debug).not.toHaveBeenCalled();
+  });
+
+  it('should log everything at debug level', () => {
+    const sink = createSink();
+    configureLogger({ level: 'debug', sink });
+
+    logger.info('Loading', 'file.js');
+    logger.debug('details');
+
+    expect(sink.info).toHaveBeenCalledWith('Loading', 'file.js');
+    expect(sink.debug).toHaveBeenCalledWith('details');
+  });
+
+  it('should log nothing when silent', () => {
+    const sink = createSink();
+    configureLogger({ level: 'silent', sink });
+
+    logger.error('error');
+
+    expect(sink.error).not.toHaveBeenCalled();
+  });
+
+  it('should write to the console without a sink', () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    configureLogger('error');
+
+    logger.error('Failed to export results:', 'reason');
+    logger.warn('ignored');
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to export results:', 'reason');
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should be configured through the global configuration', () => {
+    const previous = getGlobalConfig();
+    const sink = createSink();
+
+    setGlobalConfig({ ...DEFAULT_CONFIG, logger: { level: 'info', sink } });
+    logger.info('configured');
+
+    expect(getLogLevel()).toBe('info');
+    expect(sink.info).toHaveBeenCalledWith('configured');
+    setGlobalConfig(previous);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { isGlob, splitGlob, globToRegExp, loadManifest, expandGlob, getVirtualGlob } from '../manifest';
+
+const options = { baseUrl: 'https://data.example.com' };
+
+describe('manifest', () => {
+  describe('isGlob', () => {
+    it('should detect glob characters', () => {
+      expect(isGlob('events/*.parquet')).toBe(true);
+      expect(isGlob('data/file?.csv')).toBe(true);
+      expect(isGlob('data/[ab].csv')).toBe(true);
+      expect(isGlob('events/year=2023/data.parquet')).toBe(false);
+    });
+
+    it('should ignore query strings', () => {
+      expect(isGlob('https://example.com/data.csv?v=2')).toBe(false);
+      expect(isGlob('https://example.com/data.parquet?sig=a*b')).toBe(false);
+      expect(isGlob('https://example.com/*.parquet?v=2')).toBe(true);
+    });
+  });
+
+  describe('splitGlob', () => {
+    it('should split at the last directory before the first glob character', () => {
+      expect(splitGlob('events/year=*/month=*/*.parquet')).toEqual({
+        directory: 'events/',
+        pattern: 'year=*/month=*/*.parquet',
+      });
+    });
+
+    it('should handle globs without a directory', () => {
+      expect(splitGlob('*.csv')).toEqual({ directory: '', pattern: '*.csv' });
+    });
+  });
+
+  describe('globToRegExp', () => {
+    it('should match * within a path segment', () => {
+      const regex = globToRegExp('year=*/*.parquet');
+      expect(regex.test('year=2023/a.parquet')).toBe(true);
+      expect(regex.test('year=2023/month=1/a.parquet')).toBe(false);
+    });
+
+    it('should match ** across path segments', () => {
+      const regex = globToRegExp('**/*.parquet');
+      expect(regex.test('a.parquet')).toBe(true);
+      expect(regex.test('year=2023/month=1/a.parquet')).toBe(true);
+      expect(regex.test('year=2023/a.csv')).toBe(false);
+    });
+
+    it('should match ? and character classes', () => {
+      expect(globToRegExp('part-?.csv').test('part-1.csv')).toBe(true);
+      expect(globToRegExp('part-?.csv').test('part-10.csv')).toBe(false);
+      expect(globToRegExp('part-[12].csv').test('part-2.csv')).toBe(true);
+      expect(globToRegExp('part-[!12].csv').test('part-2.csv')).toBe(false);
+    });
+
+    it('should match other characters literally', () => {
+      expect(globToRegExp('a+b.csv').test('a+b.csv')).toBe(true);
+      expect(globToRegExp('a+b.csv').test('aab.csv')).toBe(false);
+    });
+  });
+
+  describe('expandGlob', () => {
+    const files = [
+      'events/year=2023/month=01/part-0.parquet',
+      'events/year=2023/month=02/part-0.parquet',
+      './events/year=2024/month=01/part-0.parquet',
+      'events/year=2024/summary.csv',
+      'other/year=2023/month=01/part-0.parquet',
+    ];
+
+    it('should return the URLs of the matching files', () => {
+      expect(expandGlob('events/year=*/month=*/*.parquet', files, options)).toEqual([
+        'https://data.example.com/events/year=2023/month=01/part-0.parquet',
+        'https://data.example.com/events/year=2023/month=02/part-0.parquet',
+        'https://data.example.com/events/year=2024/month=01/part-0.parquet',
+      ]);
+    });
+
+    it('should compare resolved paths', () => {
+      expect(expandGlob('https://data.example.com/events/*/*.csv', files, options)).toEqual([
+        'https://data.example.com/events/year=2024/summary.csv',
+      ]);
+    });
+
+    it('should return an empty list without matches', () => {
+      expect(expandGlob('missing/*.parquet', files, options)).toEqual([]);
+    });
+  });
+
+  describe('getVirtualGlob', () => {
+    it('should prefix the glob with the virtual path of its directory', () => {
+      expect(getVirtualGlob('events/year=*/*.parquet', options)).toBe('data.example.com/events/year=*/*.parquet');
+      expect(getVirtualGlob('*.csv', options)).toBe('data.example.com/*.csv');
+    });
+  });
+
+  describe('loadManifest', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should load a manifest once', async () => {
+      const fetchMock = vi.fn(() => Promise.resolve({ ok: true, json: () => Promise.resolve(['a.csv']) }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      expect(await loadManifest('https://data.example.com/once.json')).toEqual(['a.csv']);
+      expect(await loadManifest('https://data.example.com/once.json')).toEqual(['a.csv']);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject invalid manifests and retry failed loads', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce({ ok: false, status: 404 })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ files: [] }) });
+      vi.stubGlobal('fetch', fetchMock);
+      const url = 'https://data.example.com/retry.json';
+
+      await expect(loadManifest(url)).rejects.toThrow(`Failed to load manifest ${url}: HTTP 404`);
+      await expect(loadManifest(url)).rejects.toThrow(`Invalid manifest ${url}: expected a JSON array of file paths`);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+});
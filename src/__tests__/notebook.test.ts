@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Embedded } from '../embedded';
+import { duckDBManager } from '../duckdb-manager';
+import { findNotebook } from '../notebook';
+
+vi.mock('../duckdb-manager');
+
+/**
+ * Create embeds for the <pre> elements of the given HTML
+ */
+function createCells(html: string): Embedded[] {
+  document.body.innerHTML = html;
+  return Array.from(document.querySelectorAll('pre')).map((pre) => new Embedded(pre));
+}
+
+function executedQueries(): string[] {
+  return vi.mocked(duckDBManager.query).mock.calls.map(([sql]) => sql.replace(/\s+/g, ' '));
+}
+
+function statusText(embed: Embedded): string | null | undefined {
+  return embed.getContainer()?.querySelector('.sql-workbench-cell-status')?.textContent;
+}
+
+describe('notebook', () => {
+  let embeds: Embedded[] = [];
+
+  beforeEach(() => {
+    vi.mocked(duckDBManager.isInitialized).mockReturnValue(true);
+    vi.mocked(duckDBManager.registerFile).mockResolvedValue(undefined);
+    vi.mocked(duckDBManager.query).mockResolvedValue({
+      columns: ['x'],
+      rows: [[1]],
+      rowCount: 1,
+      executionTime: 1,
+    });
+  });
+
+  afterEach(() => {
+    embeds.forEach((embed) => embed.destroy());
+    embeds = [];
+    document.body.innerHTML = '';
+  });
+
+  it('should order cells by data-cell-order, then document order', () => {
+    embeds = createCells(`
+      <pre data-notebook="intro">SELECT 'unordered'</pre>
+      <pre data-notebook="intro" data-cell-order="2">SELECT 'second'</pre>
+      <pre data-notebook="intro" data-cell-order="1">SELECT 'first'</pre>
+    `);
+
+    expect(findNotebook('intro')?.getCells()).toEqual([embeds[2], embeds[1], embeds[0]]);
+    expect(statusText(embeds[2]!)).toBe('[1] Not run');
+    expect(statusText(embeds[0]!)).toBe('[3] Not run');
+  });
+
+  it('should run upstream cells that have not run yet', async () => {
+    embeds = createCells(`
+      <pre data-notebook="intro">CREATE TABLE t AS SELECT 1 AS x</pre>
+      <pre data-notebook="intro">INSERT INTO t VALUES (2)</pre>
+      <pre data-notebook="intro">SELECT * FROM t</pre>
+    `);
+
+    await embeds[2]!.run();
+
+    expect(executedQueries()).toEqual([
+      'CREATE TABLE t AS SELECT 1 AS x',
+      'INSERT INTO t VALUES (2)',
+      'SELECT * FROM t',
+    ]);
+    expect(embeds.map((embed) => embed.getCellStatus())).toEqual(['ran', 'ran', 'ran']);
+    expect(statusText(embeds[0]!)).toBe('[1] Ran');
+
+    // Upstream cells that already ran are not run again
+    vi.mocked(duckDBManager.query).mockClear();
+    await embeds[2]!.run();
+    expect(executedQueries()).toEqual(['SELECT * FROM t']);
+  });
+
+  it('should run autorun cells once when they also run as upstream cells', async () => {
+    embeds = createCells(`
+      <pre data-notebook="intro" data-cell-order="2" data-autorun>SELECT * FROM t</pre>
+      <pre data-notebook="intro" data-cell-order="1" data-autorun>CREATE TABLE t AS SELECT 1 AS x</pre>
+    `);
+
+    await vi.waitFor(() => expect(embeds.map((embed) => embed.getCellStatus())).toEqual(['ran', 'ran']));
+    // Let the autorun of the first cell, queued behind the second, settle
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(executedQueries()).toEqual(['CREATE TABLE t AS SELECT 1 AS x', 'SELECT * FROM t']);
+  });
+
+  it('should not run a cell when an upstream cell fails', async () => {
+    vi.mocked(duckDBManager.query).mockRejectedValueOnce(new Error('Syntax error'));
+    embeds = createCells(`
+      <pre data-notebook="intro">CREATE TABLE t AS SELEC 1</pre>
+      <pre data-notebook="intro">SELECT * FROM t</pre>
+    `);
+    const onError = vi.fn();
+    embeds[1]!.on('error', onError);
+
+    await embeds[1]!.run();
+
+    expect(executedQueries()).toEqual(['CREATE TABLE t AS SELEC 1']);
+    expect(embeds[0]!.getCellStatus()).toBe('not-run');
+    expect(embeds[1]!.getState()).toBe('error');
+    expect(embeds[1]!.getContainer()?.textContent).toContain('Cell 1 did not run successfully');
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('should mark downstream cells as stale when an upstream cell runs again', async () => {
+    embeds = createCells(`
+      <pre data-notebook="intro">CREATE TABLE t AS SELECT 1 AS x</pre>
+      <pre data-notebook="intro">SELECT * FROM t</pre>
+    `);
+    await embeds[1]!.run();
+
+    await embeds[0]!.run();
+
+    expect(embeds[0]!.getCellStatus()).toBe('ran');
+    expect(embeds[1]!.getCellStatus()).toBe('stale');
+    expect(statusText(embeds[1]!)).toBe('[2] Stale');
+  });
+
+  it('should mark edited cells as stale and run them again', async () => {
+    embeds = createCells(`
+      <pre data-notebook="intro">CREATE TABLE t AS SELECT 1 AS x</pre>
+      <pre data-notebook="intro">SELECT * FROM t</pre>
+    `);
+    await embeds[1]!.run();
+
+    await embeds[0]!.setCode('CREATE TABLE t AS SELECT 2 AS x');
+    expect(embeds[0]!.getCellStatus()).toBe('stale');
+
+    vi.mocked(duckDBManager.query).mockClear();
+    await embeds[1]!.run();
+    expect(executedQueries()).toEqual(['CREATE TABLE t AS SELECT 2 AS x', 'SELECT * FROM t']);
+  });
+
+  it('should run all cells from the Run all button', async () => {
+    embeds = createCells(`
+      <pre data-notebook="intro">SELECT 1</pre>
+      <pre data-notebook="intro">SELECT 2</pre>
+    `);
+    await embeds[0]!.run();
+    vi.mocked(duckDBManager.query).mockClear();
+
+    const button = embeds[1]!.getContainer()?.querySelector<HTMLButtonElement>('.sql-workbench-button-run-all');
+    button?.click();
+    await findNotebook('intro')?.runAll();
+
+    // Cells that already ran are run again by "Run all"
+    expect(executedQueries()).toEqual(['SELECT 1', 'SELECT 2', 'SELECT 1', 'SELECT 2']);
+  });
+
+  it('should keep separate notebooks independent', async () => {
+    embeds = createCells(`
+      <pre data-notebook="a">SELECT 'a'</pre>
+      <pre data-notebook="b">SELECT 'b'</pre>
+      <pre>SELECT 'standalone'</pre>
+    `);
+
+    await embeds[1]!.run();
+
+    expect(executedQueries()).toEqual(["SELECT 'b'"]);
+    expect(embeds[2]!.getCellStatus()).toBeNull();
+    expect(embeds[2]!.getContainer()?.querySelector('.sql-workbench-button-run-all')).toBeNull();
+  });
+
+  it('should remove destroyed cells and empty notebooks', () => {
+    embeds = createCells(`
+      <pre data-notebook="intro">SELECT 1</pre>
+      <pre data-notebook="intro">SELECT 2</pre>
+    `);
+
+    embeds[0]!.destroy();
+    expect(findNotebook('intro')?.getCells()).toEqual([embeds[1]]);
+    expect(statusText(embeds[1]!)).toBe('[1] Not run');
+
+    embeds[1]!.destroy();
+    expect(findNotebook('intro')).toBeUndefined();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findParameters,
+  bindParameters,
+  getParameterType,
+  getInitialValue,
+  parseInputValue,
+} from '../parameters';
+
+describe('parameters', () => {
+  describe('findParameters', () => {
+    it('should find named parameters in order of first use', () => {
+      expect(findParameters('SELECT * FROM trips WHERE fare > $min_fare AND zone = $zone OR fare < $min_fare'))
+        .toEqual(['min_fare', 'zone']);
+    });
+
+    it('should ignore strings, comments, dollar quotes and positional parameters', () => {
+      const sql = `SELECT '$a', "$b", $$ $c $$, $1, ? -- $d
+        /* $e */ FROM t WHERE x = $f`;
+
+      expect(findParameters(sql)).toEqual(['f']);
+    });
+  });
+
+  describe('bindParameters', () => {
+    it('should replace named parameters with positional ones', () => {
+      const values = new Map<string, string | number | null>([['min_fare', 10], ['zone', 'JFK']]);
+
+      expect(bindParameters('SELECT $zone, $min_fare, $zone', values)).toEqual({
+        sql: 'SELECT $1, $2, $1',
+        params: ['JFK', 10],
+      });
+    });
+
+    it('should leave SQL without named parameters unchanged', () => {
+      expect(bindParameters("SELECT '$x' -- $y", new Map())).toEqual({ sql: "SELECT '$x' -- $y", params: [] });
+    });
+
+    it('should not interpolate values into the SQL', () => {
+      const values = new Map([['name', "'; DROP TABLE t; --"]]);
+
+      const bound = bindParameters('SELECT * FROM t WHERE name = $name', values);
+
+      expect(bound.sql).toBe('SELECT * FROM t WHERE name = $1');
+      expect(bound.params).toEqual(["'; DROP TABLE t; --"]);
+    });
+
+    it('should reject parameters without a value', () => {
+      expect(() => bindParameters('SELECT $missing', new Map())).toThrow('No value for parameter $missing');
+    });
+
+    it('should reject positional parameters mixed with named ones', () => {
+      const values = new Map([['name', 5]]);
+
+      expect(() => bindParameters('SELECT $1, $name, $name', values)).toThrow(
+        'Cannot mix positional parameter $1 with named parameters ($name)'
+      );
+      expect(() => bindParameters('SELECT ?, $name', values)).toThrow('Cannot mix positional parameter ?');
+    });
+  });
+
+  describe('controls', () => {
+    it('should derive the control type', () => {
+      expect(getParameterType({})).toBe('text');
+      expect(getParameterType({ options: ['a'] })).toBe('select');
+      expect(getParameterType({ type: 'date' })).toBe('date');
+    });
+
+    it('should derive initial values', () => {
+      expect(getInitialValue({ type: 'number', value: 5 })).toBe(5);
+      expect(getInitialValue({ type: 'number' })).toBeNull();
+      expect(getInitialValue({ options: [2019, 2020] })).toBe(2019);
+      expect(getInitialValue({})).toBe('');
+    });
+
+    it('should convert input values', () => {
+      expect(parseInputValue({ type: 'number' }, '12.5')).toBe(12.5);
+      expect(parseInputValue({ type: 'number' }, '')).toBeNull();
+      expect(parseInputValue({ type: 'date' }, '2024-01-31')).toBe('2024-01-31');
+      expect(parseInputValue({ type: 'date' }, '')).toBeNull();
+      expect(parseInputValue({ options: [2019, 2020] }, '2020')).toBe(2020);
+      expect(parseInputValue({}, ' text ')).toBe(' text ');
+    });
+  });
+});
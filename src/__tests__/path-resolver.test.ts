@@ -1,5 +1,13 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { resolvePath, extractFilePaths, resolvePathsInSQL } from '../path-resolver';
+import {
+  resolvePath,
+  extractFilePaths,
+  extractFileReferences,
+  resolvePathsInSQL,
+  getVirtualPath,
+  hasNonHttpScheme,
+  rewriteFilePaths,
+} from '../path-resolver';
 import type { PathResolutionOptions } from '../path-resolver';
 
 describe('path-resolver', () => {
@@ -98,6 +106,15 @@ describe('path-resolver', () => {
       expect(extractFilePaths(sql)).toEqual(['data.arrow']);
     });
 
+    it('should extract DuckDB database files from ATTACH', () => {
+      expect(extractFilePaths("ATTACH 'sample.duckdb' AS sample (READ_ONLY)")).toEqual(['sample.duckdb']);
+      expect(extractFilePaths("ATTACH './db/legacy.db' (READ_ONLY)")).toEqual(['./db/legacy.db']);
+    });
+
+    it('should not mistake names ending in db for files', () => {
+      expect(extractFilePaths("SELECT * FROM 'mydb' WHERE x = 'db'")).toEqual([]);
+    });
+
     it('should extract multiple files', () => {
       const sql = `
         SELECT * FROM 'sales.parquet'
@@ -187,6 +204,134 @@ describe('path-resolver', () => {
     });
   });
 
+  describe('extractFileReferences', () => {
+    it('should report the kind and position of each reference', () => {
+      const sql = "SELECT * FROM 'a.csv' JOIN read_parquet('b.parquet') USING (id)";
+
+      expect(extractFileReferences(sql)).toEqual([
+        { path: 'a.csv', kind: 'table', start: 14, end: 21 },
+        { path: 'b.parquet', kind: 'function', start: 40, end: 51 },
+      ]);
+    });
+
+    it('should ignore paths in comments and unrelated strings', () => {
+      const sql = `
+        -- SELECT * FROM 'old.csv'
+        /* FROM 'draft.parquet' */
+        SELECT 'report.csv' AS name, concat('x', '.json') FROM t WHERE f = 'data.parquet'
+      `;
+      expect(extractFileReferences(sql)).toEqual([]);
+    });
+
+    it('should extract lists of files passed to read functions', () => {
+      const sql = "SELECT * FROM read_csv(['a.csv', 'b.csv.gz'], delim = ';', filename = 'c.csv')";
+      expect(extractFilePaths(sql)).toEqual(['a.csv', 'b.csv.gz']);
+    });
+
+    it('should extract compressed and additional formats', () => {
+      const sql = `
+        SELECT * FROM 'a.csv.gz', 'b.json.zst', 'c.tsv';
+        SELECT * FROM read_json('d.ndjson') JOIN read_json('e.jsonl') USING (id);
+        SELECT * FROM read_xlsx('f.xlsx');
+      `;
+      expect(extractFilePaths(sql)).toEqual(['a.csv.gz', 'b.json.zst', 'c.tsv', 'd.ndjson', 'e.jsonl', 'f.xlsx']);
+    });
+
+    it('should extract COPY sources but not COPY targets', () => {
+      const sql = "COPY t FROM 'in.csv'; COPY (SELECT * FROM 'src.parquet') TO 'out.parquet'";
+
+      expect(extractFileReferences(sql).map(({ path, kind }) => ({ path, kind }))).toEqual([
+        { path: 'in.csv', kind: 'copy' },
+        { path: 'src.parquet', kind: 'table' },
+      ]);
+    });
+
+    it('should extract ATTACH databases', () => {
+      const sql = "ATTACH IF NOT EXISTS 'a.duckdb' AS a (READ_ONLY); ATTACH DATABASE 'b.db' AS b";
+
+      expect(extractFileReferences(sql).map(({ path, kind }) => ({ path, kind }))).toEqual([
+        { path: 'a.duckdb', kind: 'attach' },
+        { path: 'b.db', kind: 'attach' },
+      ]);
+    });
+
+    it('should unescape quotes in paths', () => {
+      expect(extractFilePaths("SELECT * FROM 'it''s.csv'")).toEqual(["it's.csv"]);
+    });
+
+    it('should accept a query string after the file extension', () => {
+      expect(extractFilePaths("SELECT * FROM 'https://example.com/data.csv?v=2&sig=abc'")).toEqual([
+        'https://example.com/data.csv?v=2&sig=abc',
+      ]);
+    });
+  });
+
+  describe('hasNonHttpScheme', () => {
+    it('should detect URLs with other schemes', () => {
+      expect(hasNonHttpScheme('s3://bucket/data.parquet')).toBe(true);
+      expect(hasNonHttpScheme('hf://datasets/user/repo/data.csv')).toBe(true);
+      expect(hasNonHttpScheme('GS://bucket/*.parquet')).toBe(true);
+    });
+
+    it('should not match HTTP(S) URLs and paths', () => {
+      expect(hasNonHttpScheme('https://example.com/data.parquet')).toBe(false);
+      expect(hasNonHttpScheme('HTTP://example.com/data.parquet')).toBe(false);
+      expect(hasNonHttpScheme('data/s3://x.parquet')).toBe(false);
+      expect(hasNonHttpScheme('/data.parquet')).toBe(false);
+    });
+  });
+
+  describe('getVirtualPath', () => {
+    it('should mirror the host and path of the URL', () => {
+      expect(getVirtualPath('https://data.sql-workbench.com/2023/data.parquet')).toBe(
+        'data.sql-workbench.com/2023/data.parquet'
+      );
+    });
+
+    it('should keep files on different hosts apart', () => {
+      expect(getVirtualPath('https://a.example.com/data.csv')).not.toBe(getVirtualPath('https://b.example.com/data.csv'));
+    });
+
+    it('should replace the query string with its hash before the file extension', () => {
+      expect(getVirtualPath('https://example.com/data.csv?v=2')).toBe('example.com/data.l40ocn.csv');
+      expect(getVirtualPath('https://example.com/data.csv.gz?v=2')).toBe('example.com/data.l40ocn.csv.gz');
+    });
+
+    it('should keep URLs that differ only in their query string apart', () => {
+      const first = getVirtualPath('https://example.com/data.csv?v=1');
+      const second = getVirtualPath('https://example.com/data.csv?v=2');
+
+      expect(first).not.toBe(second);
+      expect(first).toMatch(/^example\.com\/data\.\w+\.csv$/);
+      expect(getVirtualPath('https://example.com/data.csv?v=1')).toBe(first);
+    });
+  });
+
+  describe('rewriteFilePaths', () => {
+    it('should replace file references', () => {
+      const paths = new Map([
+        ['2023/data.parquet', 'example.com/2023/data.parquet'],
+        ['b.csv', 'example.com/b.csv'],
+      ]);
+      const sql = `SELECT * FROM '2023/data.parquet' JOIN read_csv(["b.csv"]) USING (id) WHERE f = '2023/data.parquet'`;
+
+      expect(rewriteFilePaths(sql, paths)).toBe(
+        `SELECT * FROM 'example.com/2023/data.parquet' JOIN read_csv(['example.com/b.csv']) USING (id) WHERE f = '2023/data.parquet'`
+      );
+    });
+
+    it('should leave references without replacement unchanged', () => {
+      const sql = "SELECT * FROM 'local.csv'";
+      expect(rewriteFilePaths(sql, new Map())).toBe(sql);
+    });
+
+    it('should escape quotes in replacements', () => {
+      expect(rewriteFilePaths("FROM 'it''s.csv'", new Map([["it's.csv", "example.com/it's.csv"]]))).toBe(
+        "FROM 'example.com/it''s.csv'"
+      );
+    });
+  });
+
   describe('resolvePathsInSQL', () => {
     it('should resolve all paths in SQL query', () => {
       const sql = `
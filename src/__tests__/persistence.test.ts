@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  getDatabaseName,
+  getDatabaseFile,
+  detectStorage,
+  removeFromOPFS,
+  loadFromIndexedDB,
+  saveToIndexedDB,
+  removeFromIndexedDB,
+} from '../persistence';
+
+/**
+ * Minimal IndexedDB with a single object store, resolving requests asynchronously
+ */
+function createFakeIndexedDB() {
+  const values = new Map<IDBValidKey, unknown>();
+
+  const request = (run: () => unknown) => {
+    const req: any = {};
+    setTimeout(() => {
+      req.result = run();
+      req.onsuccess?.();
+    }, 0);
+    return req;
+  };
+
+  const store = {
+    get: (key: IDBValidKey) => request(() => values.get(key)),
+    put: (value: unknown, key: IDBValidKey) => request(() => values.set(key, value)),
+    delete: (key: IDBValidKey) => request(() => values.delete(key)),
+  };
+
+  const database = {
+    createObjectStore: vi.fn(),
+    transaction: vi.fn(() => ({ objectStore: () => store })),
+    close: vi.fn(),
+  };
+
+  return {
+    values,
+    database,
+    open: vi.fn(() => {
+      const req: any = { result: database };
+      setTimeout(() => {
+        req.onupgradeneeded?.();
+        req.onsuccess?.();
+      }, 0);
+      return req;
+    }),
+  };
+}
+
+describe('persistence', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('getDatabaseName', () => {
+    it('should use the default name when enabled with true', () => {
+      expect(getDatabaseName(true)).toBe('sql-workbench');
+    });
+
+    it('should use a given name', () => {
+      expect(getDatabaseName('notes')).toBe('notes');
+    });
+
+    it('should return null when disabled', () => {
+      expect(getDatabaseName(false)).toBeNull();
+      expect(getDatabaseName('')).toBeNull();
+    });
+
+    it('should name the database file after the database', () => {
+      expect(getDatabaseFile('notes')).toBe('notes.duckdb');
+    });
+  });
+
+  describe('detectStorage', () => {
+    it('should prefer OPFS', () => {
+      vi.stubGlobal('navigator', { storage: { getDirectory: vi.fn() } });
+      vi.stubGlobal('indexedDB', {});
+
+      expect(detectStorage()).toBe('opfs');
+    });
+
+    it('should fall back to IndexedDB', () => {
+      vi.stubGlobal('navigator', {});
+      vi.stubGlobal('indexedDB', {});
+
+      expect(detectStorage()).toBe('indexeddb');
+    });
+
+    it('should return null without either', () => {
+      vi.stubGlobal('navigator', {});
+      vi.stubGlobal('indexedDB', undefined);
+
+      expect(detectStorage()).toBeNull();
+    });
+  });
+
+  describe('removeFromOPFS', () => {
+    it('should remove the database file and its write-ahead log', async () => {
+      const removeEntry = vi.fn(() => Promise.resolve());
+      vi.stubGlobal('navigator', { storage: { getDirectory: () => Promise.resolve({ removeEntry }) } });
+
+      await removeFromOPFS('notes');
+
+      expect(removeEntry.mock.calls).toEqual([['notes.duckdb'], ['notes.duckdb.wal']]);
+    });
+
+    it('should ignore missing files', async () => {
+      const removeEntry = vi.fn(() => Promise.reject(new DOMException('Not found', 'NotFoundError')));
+      vi.stubGlobal('navigator', { storage: { getDirectory: () => Promise.resolve({ removeEntry }) } });
+
+      await expect(removeFromOPFS('notes')).resolves.toBeUndefined();
+    });
+
+    it('should report other failures', async () => {
+      const removeEntry = vi.fn(() => Promise.reject(new DOMException('Locked', 'NoModificationAllowedError')));
+      vi.stubGlobal('navigator', { storage: { getDirectory: () => Promise.resolve({ removeEntry }) } });
+
+      await expect(removeFromOPFS('notes')).rejects.toThrow('Locked');
+    });
+  });
+
+  describe('IndexedDB', () => {
+    it('should save, load and remove database files', async () => {
+      const fake = createFakeIndexedDB();
+      vi.stubGlobal('indexedDB', fake);
+      const contents = new Uint8Array([1, 2, 3]);
+
+      await saveToIndexedDB('notes', contents);
+      expect(await loadFromIndexedDB('notes')).toBe(contents);
+
+      await removeFromIndexedDB('notes');
+      expect(await loadFromIndexedDB('notes')).toBeNull();
+
+      expect(fake.open).toHaveBeenCalledWith('sql-workbench', 1);
+      expect(fake.database.createObjectStore).toHaveBeenCalledWith('databases');
+      // Every operation closes its connection
+      expect(fake.database.close).toHaveBeenCalledTimes(4);
+    });
+
+    it('should return null for databases that were never saved', async () => {
+      vi.stubGlobal('indexedDB', createFakeIndexedDB());
+
+      expect(await loadFromIndexedDB('missing')).toBeNull();
+    });
+  });
+});
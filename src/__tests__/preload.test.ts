@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { duckDBManager } from '../duckdb-manager';
+import { schedulePreload, schedulePagePreload, cancelPagePreload, preloadDuckDB } from '../preload';
+import { configureLogger } from '../logger';
+import { DEFAULT_CONFIG, PreloadMode } from '../types';
+
+vi.mock('../duckdb-manager');
+
+function options(preload: PreloadMode) {
+  return { ...DEFAULT_CONFIG, preload, initQueries: ['INSTALL spatial'] };
+}
+
+describe('preload', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(duckDBManager.isInitialized).mockReturnValue(false);
+    vi.mocked(duckDBManager.preload).mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+    cancelPagePreload();
+  });
+
+  it('should configure DuckDB and run init queries when preloading', async () => {
+    await preloadDuckDB(options('immediate'));
+
+    expect(duckDBManager.configure).toHaveBeenCalledWith({
+      version: DEFAULT_CONFIG.duckdbVersion,
+      cdn: DEFAULT_CONFIG.duckdbCDN,
+      bundles: null,
+      persistence: null,
+    });
+    expect(duckDBManager.configureInitQueries).toHaveBeenCalledWith(['INSTALL spatial']);
+    expect(duckDBManager.preload).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass the name of the persistent database', async () => {
+    await preloadDuckDB({ ...options('immediate'), persistence: true });
+
+    expect(duckDBManager.configure).toHaveBeenCalledWith(expect.objectContaining({ persistence: 'sql-workbench' }));
+  });
+
+  it('should log preload failures instead of throwing', async () => {
+    const sink = { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() };
+    configureLogger({ level: 'warn', sink });
+    vi.mocked(duckDBManager.preload).mockRejectedValue(new Error('Network error'));
+
+    await expect(preloadDuckDB(options('immediate'))).resolves.toBeUndefined();
+
+    expect(sink.warn).toHaveBeenCalledWith('Failed to preload DuckDB:', expect.any(Error));
+    configureLogger('warn');
+  });
+
+  it('should not preload by default', () => {
+    schedulePreload(options('none'), [document.body]);
+    vi.runAllTimers();
+
+    expect(duckDBManager.preload).not.toHaveBeenCalled();
+  });
+
+  it('should preload immediately', () => {
+    schedulePreload(options('immediate'), []);
+
+    expect(duckDBManager.preload).toHaveBeenCalledTimes(1);
+  });
+
+  it('should preload when the browser is idle', () => {
+    const callbacks: IdleRequestCallback[] = [];
+    vi.stubGlobal('requestIdleCallback', vi.fn((callback: IdleRequestCallback) => callbacks.push(callback)));
+    vi.stubGlobal('cancelIdleCallback', vi.fn());
+
+    schedulePreload(options('idle'), []);
+    expect(duckDBManager.preload).not.toHaveBeenCalled();
+
+    callbacks[0]?.({ didTimeout: false, timeRemaining: () => 50 });
+    expect(duckDBManager.preload).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to a timeout without requestIdleCallback', () => {
+    vi.stubGlobal('requestIdleCallback', undefined);
+
+    const cancel = schedulePreload(options('idle'), []);
+    cancel();
+    vi.runAllTimers();
+    expect(duckDBManager.preload).not.toHaveBeenCalled();
+
+    schedulePreload(options('idle'), []);
+    vi.runAllTimers();
+    expect(duckDBManager.preload).toHaveBeenCalledTimes(1);
+  });
+
+  it('should preload when an embed becomes visible', () => {
+    let trigger: (entries: Partial<IntersectionObserverEntry>[]) => void = () => undefined;
+    const observe = vi.fn();
+    const disconnect = vi.fn();
+    vi.stubGlobal('IntersectionObserver', vi.fn(function(this: any, callback: any) {
+      trigger = callback;
+      this.observe = observe;
+      this.disconnect = disconnect;
+    }));
+    const target = document.createElement('div');
+
+    schedulePreload(options('visible'), [target]);
+    expect(observe).toHaveBeenCalledWith(target);
+
+    trigger([{ isIntersecting: false }]);
+    expect(duckDBManager.preload).not.toHaveBeenCalled();
+
+    trigger([{ isIntersecting: true }]);
+    expect(duckDBManager.preload).toHaveBeenCalledTimes(1);
+    expect(disconnect).toHaveBeenCalled();
+  });
+
+  it('should preload right away without IntersectionObserver support', () => {
+    vi.stubGlobal('IntersectionObserver', undefined);
+
+    schedulePreload(options('visible'), [document.body]);
+
+    expect(duckDBManager.preload).toHaveBeenCalledTimes(1);
+  });
+
+  describe('page preload', () => {
+    it('should schedule the preload once', () => {
+      schedulePagePreload(options('idle'), []);
+      schedulePagePreload(options('idle'), []);
+
+      vi.runAllTimers();
+      expect(duckDBManager.preload).toHaveBeenCalledTimes(1);
+    });
+
+    it('should observe embeds added after the first in visible mode', () => {
+      const observe = vi.fn();
+      vi.stubGlobal('IntersectionObserver', vi.fn(function(this: any) {
+        this.observe = observe;
+        this.disconnect = vi.fn();
+      }));
+      const first = document.createElement('div');
+      const second = document.createElement('div');
+
+      schedulePagePreload(options('visible'), [first]);
+      schedulePagePreload(options('visible'), [second]);
+
+      expect(observe.mock.calls).toEqual([[first], [second]]);
+    });
+
+    it('should schedule again after cancelling', () => {
+      schedulePagePreload(options('idle'), []);
+      cancelPagePreload();
+      vi.runAllTimers();
+      expect(duckDBManager.preload).not.toHaveBeenCalled();
+
+      schedulePagePreload(options('immediate'), []);
+      expect(duckDBManager.preload).toHaveBeenCalledTimes(1);
+    });
+  });
+});
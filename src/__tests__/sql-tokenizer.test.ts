@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { tokenizeSQL, splitStatements } from '../sql-tokenizer';
+
+describe('sql-tokenizer', () => {
+  describe('tokenizeSQL', () => {
+    it('should tokenize a simple query', () => {
+      const tokens = tokenizeSQL('SELECT 1').filter((token) => token.type !== 'whitespace');
+
+      expect(tokens.map((token) => [token.type, token.text])).toEqual([
+        ['identifier', 'SELECT'],
+        ['number', '1'],
+      ]);
+    });
+
+    it('should report token positions', () => {
+      const tokens = tokenizeSQL("FROM 'data.parquet'");
+      const stringToken = tokens.find((token) => token.type === 'string');
+
+      expect(stringToken).toEqual({
+        type: 'string',
+        text: "'data.parquet'",
+        start: 5,
+        end: 19,
+      });
+    });
+
+    it('should handle escaped quotes in strings', () => {
+      const tokens = tokenizeSQL("SELECT 'it''s'");
+      const stringToken = tokens.find((token) => token.type === 'string');
+
+      expect(stringToken?.text).toBe("'it''s'");
+    });
+
+    it('should handle backslash escapes in E-strings', () => {
+      const tokens = tokenizeSQL("SELECT E'a\\'b'");
+      const stringToken = tokens.find((token) => token.type === 'string');
+
+      expect(stringToken?.text).toBe("E'a\\'b'");
+    });
+
+    it('should tokenize quoted identifiers', () => {
+      const tokens = tokenizeSQL('SELECT "my ""col"""');
+      const identifier = tokens.find((token) => token.type === 'quoted-identifier');
+
+      expect(identifier?.text).toBe('"my ""col"""');
+    });
+
+    it('should tokenize single-line and block comments', () => {
+      const tokens = tokenizeSQL('-- note\nSELECT /* inline */ 1');
+      const comments = tokens.filter((token) => token.type === 'comment');
+
+      expect(comments.map((token) => token.text)).toEqual(['-- note', '/* inline */']);
+    });
+
+    it('should tokenize dollar-quoted strings', () => {
+      const tokens = tokenizeSQL('SELECT $$a;b$$, $fn$x$fn$');
+      const strings = tokens.filter((token) => token.type === 'string');
+
+      expect(strings.map((token) => token.text)).toEqual(['$$a;b$$', '$fn$x$fn$']);
+    });
+
+    it('should tokenize parameters', () => {
+      const tokens = tokenizeSQL('SELECT $1, $min_fare, ?');
+      const params = tokens.filter((token) => token.type === 'parameter');
+
+      expect(params.map((token) => token.text)).toEqual(['$1', '$min_fare', '?']);
+    });
+
+    it('should extend unterminated strings to the end of input', () => {
+      const tokens = tokenizeSQL("SELECT 'abc");
+      const last = tokens[tokens.length - 1];
+
+      expect(last?.type).toBe('string');
+      expect(last?.text).toBe("'abc");
+    });
+  });
+
+  describe('splitStatements', () => {
+    it('should return a single statement without semicolon', () => {
+      expect(splitStatements('SELECT 1').map((s) => s.sql)).toEqual(['SELECT 1']);
+    });
+
+    it('should split statements on semicolons', () => {
+      const sql = 'CREATE TABLE t (id INT);\nINSERT INTO t VALUES (1);\nSELECT * FROM t;';
+
+      expect(splitStatements(sql).map((s) => s.sql)).toEqual([
+        'CREATE TABLE t (id INT)',
+        'INSERT INTO t VALUES (1)',
+        'SELECT * FROM t',
+      ]);
+    });
+
+    it('should not split on semicolons inside strings', () => {
+      const sql = "SELECT 'a;b'; SELECT 2";
+
+      expect(splitStatements(sql).map((s) => s.sql)).toEqual(["SELECT 'a;b'", 'SELECT 2']);
+    });
+
+    it('should not split on semicolons inside quoted identifiers', () => {
+      const sql = 'SELECT 1 AS "a;b"; SELECT 2';
+
+      expect(splitStatements(sql).map((s) => s.sql)).toEqual(['SELECT 1 AS "a;b"', 'SELECT 2']);
+    });
+
+    it('should not split on semicolons inside comments', () => {
+      const sql = 'SELECT 1 -- first; still a comment\n; /* a;b */ SELECT 2';
+
+      expect(splitStatements(sql).map((s) => s.sql)).toEqual([
+        'SELECT 1 -- first; still a comment',
+        '/* a;b */ SELECT 2',
+      ]);
+    });
+
+    it('should not split on semicolons inside dollar-quoted bodies', () => {
+      const sql = "CREATE MACRO f() AS $$SELECT 1; SELECT 2$$; SELECT f()";
+
+      expect(splitStatements(sql)).toHaveLength(2);
+    });
+
+    it('should drop empty and comment-only statements', () => {
+      const sql = ';;\nSELECT 1;\n  ;\n-- trailing comment\n';
+
+      expect(splitStatements(sql).map((s) => s.sql)).toEqual(['SELECT 1']);
+    });
+
+    it('should return no statements for blank input', () => {
+      expect(splitStatements('   \n  ')).toEqual([]);
+    });
+
+    it('should report statement positions', () => {
+      const sql = 'SELECT 1;  SELECT 2';
+      const statements = splitStatements(sql);
+
+      expect(statements[1]).toEqual({ sql: 'SELECT 2', start: 11, end: 19 });
+      expect(sql.substring(statements[1]!.start, statements[1]!.end)).toBe('SELECT 2');
+    });
+  });
+});
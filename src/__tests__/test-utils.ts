@@ -29,6 +29,26 @@ export function createMockConnection(): DuckDBConnection {
   } as any;
 }
 
+/**
+ * Wraps a mock Arrow table into the async record batch reader
+ * returned by AsyncDuckDBConnection.send()
+ */
+export function createMockArrowReader(table: {
+  schema: { fields: { name: string }[] };
+  numRows: number;
+  numCols: number;
+  getChildAt: (index: number) => { get: (row: number) => unknown } | null;
+}) {
+  return {
+    schema: table.schema,
+    async *[Symbol.asyncIterator]() {
+      if (table.numRows > 0) {
+        yield table;
+      }
+    },
+  };
+}
+
 /**
  * Creates a mock query result for testing
  */
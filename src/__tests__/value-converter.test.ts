@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { describeColumn, createValueConverter, formatValue, ArrowField } from '../value-converter';
+
+function field(name: string, type: Partial<ArrowField['type']>): ArrowField {
+  return { name, type: { toString: () => 'Unknown', ...type } };
+}
+
+describe('value-converter', () => {
+  describe('describeColumn', () => {
+    it('should describe scalar types with DuckDB type names', () => {
+      expect(describeColumn(field('id', { typeId: 2, bitWidth: 64, isSigned: true }))).toEqual({
+        name: 'id',
+        type: 'BIGINT',
+        kind: 'integer',
+      });
+      expect(describeColumn(field('price', { typeId: 7, precision: 10, scale: 2 })).type).toBe('DECIMAL(10,2)');
+      expect(describeColumn(field('ts', { typeId: 10, unit: 2, timezone: 'UTC' })).type).toBe('TIMESTAMP WITH TIME ZONE');
+    });
+
+    it('should describe nested types', () => {
+      const list = field('tags', { typeId: 12, children: [field('l', { typeId: 5 })] });
+      const struct = field('s', {
+        typeId: 13,
+        children: [field('a', { typeId: 2, bitWidth: 32 }), field('b', { typeId: 5 })],
+      });
+
+      expect(describeColumn(list).type).toBe('VARCHAR[]');
+      expect(describeColumn(struct).type).toBe('STRUCT(a INTEGER, b VARCHAR)');
+    });
+
+    it('should fall back to the Arrow type name for unknown types', () => {
+      expect(describeColumn({ name: 'x', type: { toString: () => 'Int32' } })).toEqual({
+        name: 'x',
+        type: 'Int32',
+        kind: 'other',
+      });
+    });
+  });
+
+  describe('createValueConverter', () => {
+    it('should convert safe BigInt values to numbers', () => {
+      const convert = createValueConverter(field('n', { typeId: 2, bitWidth: 64 }));
+
+      expect(convert(42n)).toBe(42);
+      expect(convert(2n ** 60n)).toBe(2n ** 60n);
+      expect(convert(null)).toBeNull();
+    });
+
+    it('should apply the decimal scale', () => {
+      const convert = createValueConverter(field('d', { typeId: 7, precision: 10, scale: 2 }));
+
+      expect(convert({ toString: () => '12345' })).toBe(123.45);
+      expect(convert(-5n)).toBe(-0.05);
+    });
+
+    it('should keep large decimals as exact strings', () => {
+      const convert = createValueConverter(field('d', { typeId: 7, precision: 38, scale: 3 }));
+
+      expect(convert(12345678901234567890n)).toBe('12345678901234567.890');
+    });
+
+    it('should convert dates and timestamps to Date objects', () => {
+      const date = createValueConverter(field('d', { typeId: 8, unit: 0 }))(Date.UTC(2024, 0, 15));
+      const ts = createValueConverter(field('t', { typeId: 10, unit: 2 }))(Date.UTC(2024, 0, 15, 10, 30));
+
+      expect(date).toBeInstanceOf(Date);
+      expect((date as Date).toISOString()).toBe('2024-01-15T00:00:00.000Z');
+      expect((ts as Date).toISOString()).toBe('2024-01-15T10:30:00.000Z');
+    });
+
+    it('should convert times to HH:MM:SS strings', () => {
+      const convert = createValueConverter(field('t', { typeId: 9, unit: 2 }));
+
+      expect(convert(45_296_000_000n)).toBe('12:34:56');
+      expect(convert(45_296_500_000n)).toBe('12:34:56.5');
+    });
+
+    it('should convert day-time intervals', () => {
+      const convert = createValueConverter(field('i', { typeId: 11, unit: 1 }));
+
+      expect(convert(new Int32Array([2, 3_600_000]))).toBe('2 days 01:00:00');
+    });
+
+    it('should convert lists recursively', () => {
+      const convert = createValueConverter(
+        field('l', { typeId: 12, children: [field('item', { typeId: 2, bitWidth: 64 })] })
+      );
+
+      expect(convert([1n, 2n, null])).toEqual([1, 2, null]);
+    });
+
+    it('should convert structs to plain objects', () => {
+      const convert = createValueConverter(
+        field('s', {
+          typeId: 13,
+          children: [field('a', { typeId: 2, bitWidth: 64 }), field('b', { typeId: 8 })],
+        })
+      );
+
+      expect(convert({ a: 1n, b: Date.UTC(2024, 0, 1) })).toEqual({ a: 1, b: new Date(Date.UTC(2024, 0, 1)) });
+    });
+
+    it('should convert maps to plain objects', () => {
+      const entries = field('entries', {
+        typeId: 13,
+        children: [field('key', { typeId: 5 }), field('value', { typeId: 2, bitWidth: 64 })],
+      });
+      const convert = createValueConverter(field('m', { typeId: 17, children: [entries] }));
+
+      expect(convert({ toJSON: () => ({ a: 1n, b: 2n }) })).toEqual({ a: 1, b: 2 });
+    });
+
+    it('should pass through values of unknown types', () => {
+      const value = { custom: true };
+
+      expect(createValueConverter(field('x', {}))(value)).toBe(value);
+    });
+  });
+
+  describe('formatValue', () => {
+    it('should format NULL values', () => {
+      expect(formatValue(null)).toBe('NULL');
+      expect(formatValue(undefined)).toBe('NULL');
+    });
+
+    it('should format dates as ISO dates', () => {
+      expect(formatValue(new Date(Date.UTC(2024, 0, 15)), 'date')).toBe('2024-01-15');
+    });
+
+    it('should format timestamps without the ISO separators', () => {
+      expect(formatValue(new Date(Date.UTC(2024, 0, 15, 10, 30)), 'timestamp')).toBe('2024-01-15 10:30:00');
+      expect(formatValue(new Date(Date.UTC(2024, 0, 15, 10, 30, 0, 250)), 'timestamp')).toBe('2024-01-15 10:30:00.250');
+    });
+
+    it('should format nested values as JSON', () => {
+      expect(formatValue({ a: 1, tags: ['x', 'y'] })).toBe('{"a":1,"tags":["x","y"]}');
+      expect(formatValue([1n, 2n])).toBe('["1","2"]');
+    });
+
+    it('should format binary values as hex escapes', () => {
+      expect(formatValue(new Uint8Array([0, 171]))).toBe('\\x00\\xAB');
+    });
+
+    it('should format large integers without precision loss', () => {
+      expect(formatValue(2n ** 60n)).toBe('1152921504606846976');
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeAll, afterEach } from 'vitest';
+import { defineSQLWorkbenchElement, SQLWorkbenchElement } from '../web-component';
+import { Embedded } from '../embedded';
+import { duckDBManager } from '../duckdb-manager';
+import { getGlobalConfig, setGlobalConfig } from '../config-store';
+import { cancelPagePreload } from '../preload';
+
+vi.mock('../duckdb-manager');
+
+function createElement(html: string): SQLWorkbenchElement {
+  document.body.innerHTML = html;
+  return document.querySelector<SQLWorkbenchElement>('sql-workbench')!;
+}
+
+describe('web-component', () => {
+  beforeAll(() => {
+    defineSQLWorkbenchElement();
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should register the element once', () => {
+    expect(customElements.get('sql-workbench')).toBeDefined();
+    expect(() => defineSQLWorkbenchElement()).not.toThrow();
+  });
+
+  it('should create an embed from its text content', () => {
+    const element = createElement('<sql-workbench>\n  SELECT 1\n</sql-workbench>');
+
+    expect(element.embed).toBeInstanceOf(Embedded);
+    expect(element.querySelector('.sql-workbench-container')).toBeTruthy();
+    expect(element.code).toBe('SELECT 1');
+  });
+
+  it('should use setup script children as hidden setup queries', () => {
+    const element = createElement(
+      '<sql-workbench><script type="text/x-sql-setup">CREATE TABLE t (id INT);</script>SELECT * FROM t</sql-workbench>'
+    );
+
+    expect(element.code).toBe('SELECT * FROM t');
+    expect(element.querySelector('script')).toBeNull();
+  });
+
+  it('should preload DuckDB without init() when configured', () => {
+    const config = getGlobalConfig();
+    setGlobalConfig({ ...config, preload: 'immediate' });
+
+    createElement('<sql-workbench>SELECT 1</sql-workbench>');
+
+    expect(duckDBManager.preload).toHaveBeenCalledTimes(1);
+    setGlobalConfig(config);
+    cancelPagePreload();
+  });
+
+  it('should inject styles', () => {
+    createElement('<sql-workbench>SELECT 1</sql-workbench>');
+
+    expect(document.getElementById('sql-workbench-embedded-styles')).toBeTruthy();
+  });
+
+  it('should apply attributes as options', () => {
+    const element = createElement('<sql-workbench theme="dark" editable="false" show-open-button="false">SELECT 1</sql-workbench>');
+
+    const container = element.querySelector('.sql-workbench-container');
+    const editor = element.querySelector<HTMLElement>('.sql-workbench-editor');
+    expect(container?.getAttribute('data-theme')).toBe('dark');
+    expect(editor?.contentEditable).toBe('false');
+    expect(element.querySelector('.sql-workbench-button-open')).toBeFalsy();
+  });
+
+  it('should toggle editing without recreating the embed', () => {
+    const element = createElement('<sql-workbench editable="false">SELECT 1</sql-workbench>');
+    const embed = element.embed;
+
+    element.setAttribute('editable', '');
+
+    expect(element.embed).toBe(embed);
+    expect(element.querySelector<HTMLElement>('.sql-workbench-editor')?.contentEditable).toBe('true');
+  });
+
+  it('should turn editing off when the editable attribute is removed', () => {
+    const element = createElement('<sql-workbench editable>SELECT 1</sql-workbench>');
+    const embed = element.embed;
+
+    element.removeAttribute('editable');
+
+    expect(element.embed).toBe(embed);
+    expect(element.querySelector<HTMLElement>('.sql-workbench-editor')?.contentEditable).toBe('false');
+  });
+
+  it('should keep editing off when other attributes change after removing editable', () => {
+    const element = createElement('<sql-workbench editable>SELECT 1</sql-workbench>');
+
+    element.removeAttribute('editable');
+    element.setAttribute('theme', 'dark');
+
+    expect(element.querySelector('.sql-workbench-container')?.getAttribute('data-theme')).toBe('dark');
+    expect(element.querySelector<HTMLElement>('.sql-workbench-editor')?.contentEditable).toBe('false');
+  });
+
+  it('should recreate the embed when other attributes change, keeping the code', () => {
+    const element = createElement('<sql-workbench theme="light">SELECT 1</sql-workbench>');
+    const embed = element.embed!;
+    void embed.setCode('SELECT 2');
+
+    element.setAttribute('theme', 'dark');
+
+    expect(embed.isDestroyed()).toBe(true);
+    expect(element.embed).not.toBe(embed);
+    expect(element.code).toBe('SELECT 2');
+    expect(element.querySelector('.sql-workbench-container')?.getAttribute('data-theme')).toBe('dark');
+  });
+
+  it('should destroy the embed when disconnected and recreate it when reconnected', () => {
+    const element = createElement('<sql-workbench>SELECT 1</sql-workbench>');
+    const embed = element.embed!;
+
+    element.remove();
+    expect(embed.isDestroyed()).toBe(true);
+    expect(element.embed).toBeNull();
+
+    document.body.appendChild(element);
+    expect(element.embed).toBeInstanceOf(Embedded);
+    expect(element.code).toBe('SELECT 1');
+  });
+
+  it('should update the code through the code property', () => {
+    const element = createElement('<sql-workbench>SELECT 1</sql-workbench>');
+
+    element.code = 'SELECT 42';
+
+    expect(element.embed?.getCode()).toBe('SELECT 42');
+  });
+
+  it('should bubble embed events through the element', () => {
+    const element = createElement('<sql-workbench>SELECT 1</sql-workbench>');
+    const listener = vi.fn();
+    element.addEventListener('sql-workbench:reset', listener);
+
+    element.embed?.reset();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -3,11 +3,13 @@
  */
 
 import { SQLWorkbenchConfig, DEFAULT_CONFIG } from './types';
+import { configureLogger } from './logger';
 
 let globalConfig: Required<SQLWorkbenchConfig> = { ...DEFAULT_CONFIG };
 
 export function setGlobalConfig(config: Required<SQLWorkbenchConfig>): void {
   globalConfig = config;
+  configureLogger(config.logger);
 }
 
 export function getGlobalConfig(): Required<SQLWorkbenchConfig> {
@@ -0,0 +1,259 @@
+/**
+ * Per-embed configuration through data attributes
+ * Parses and validates data-* attributes on the source element
+ * (and the unprefixed attributes of the <sql-workbench> element)
+ */
+
+import { AutorunMode, EmbeddedOptions, IsolationMode, ParameterDefinition } from './types';
+import { splitStatements } from './sql-tokenizer';
+import { logger } from './logger';
+
+interface AttributeParser<T> {
+  /** Attribute name (without prefix) */
+  attribute: string;
+  /** Parse the trimmed attribute value, returning undefined if it is invalid */
+  parse: (value: string) => T | undefined;
+  /** Description of valid values for warnings */
+  expected: string;
+}
+
+type DataAttributeOption =
+  | 'theme'
+  | 'editable'
+  | 'baseUrl'
+  | 'manifest'
+  | 'showOpenButton'
+  | 'localFiles'
+  | 'initQueries'
+  | 'queryTimeout'
+  | 'maxRows'
+  | 'pageSize'
+  | 'autorun'
+  | 'notebook'
+  | 'cellOrder'
+  | 'isolation'
+  | 'privateDatabase'
+  | 'setupQueries'
+  | 'parameters';
+
+/**
+ * Parse boolean attributes (an empty value, as in <pre data-editable>, means true)
+ */
+function parseBoolean(value: string): boolean | undefined {
+  const normalized = value.toLowerCase();
+  if (normalized === '' || normalized === 'true') return true;
+  if (normalized === 'false') return false;
+  return undefined;
+}
+
+/**
+ * Create a parser for integers of at least the given minimum
+ */
+function parseInteger(min: number): (value: string) => number | undefined {
+  return (value) => {
+    if (!/^\d+$/.test(value)) return undefined;
+    const parsed = Number(value);
+    return parsed >= min ? parsed : undefined;
+  };
+}
+
+/**
+ * Parse autorun modes ("true" and an empty value mean 'load')
+ */
+function parseAutorun(value: string): AutorunMode | undefined {
+  const normalized = value.toLowerCase();
+  if (normalized === 'load' || normalized === 'visible') return normalized;
+  const enabled = parseBoolean(normalized);
+  if (enabled === undefined) return undefined;
+  return enabled ? 'load' : false;
+}
+
+function parseIsolation(value: string): IsolationMode | undefined {
+  const normalized = value.toLowerCase();
+  return normalized === 'shared' || normalized === 'group' || normalized === 'embed' ? normalized : undefined;
+}
+
+function parseNonEmpty(value: string): string | undefined {
+  return value ? value : undefined;
+}
+
+function parseUrl(value: string): string | undefined {
+  if (!value) return undefined;
+  try {
+    new URL(value, window.location.href);
+    return value;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse manifests given as a JSON array of paths or as the URL of a manifest file
+ */
+function parseManifest(value: string): string | string[] | undefined {
+  if (value.startsWith('[')) {
+    try {
+      const parsed: unknown = JSON.parse(value);
+      if (Array.isArray(parsed) && parsed.every((path) => typeof path === 'string')) {
+        return parsed;
+      }
+    } catch {
+      // Fall through to invalid value
+    }
+    return undefined;
+  }
+
+  return parseUrl(value);
+}
+
+/**
+ * Parse queries given as a JSON array of strings or as semicolon-separated SQL
+ */
+function parseQueries(value: string): string[] | undefined {
+  if (value.startsWith('[')) {
+    try {
+      const parsed: unknown = JSON.parse(value);
+      if (Array.isArray(parsed) && parsed.every((query) => typeof query === 'string')) {
+        return parsed;
+      }
+    } catch {
+      // Fall through to invalid value
+    }
+    return undefined;
+  }
+
+  return splitStatements(value).map((statement) => statement.sql);
+}
+
+const PARAMETER_TYPES = new Set(['number', 'text', 'date', 'select']);
+
+function isParameterDefinition(value: unknown): value is ParameterDefinition {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+
+  const { type, label, value: initial, options } = value as Record<string, unknown>;
+  return (type === undefined || PARAMETER_TYPES.has(type as string))
+    && (label === undefined || typeof label === 'string')
+    && (initial === undefined || initial === null || typeof initial === 'string' || typeof initial === 'number')
+    && (options === undefined || (Array.isArray(options)
+      && options.every((option) => typeof option === 'string' || typeof option === 'number')));
+}
+
+/**
+ * Parse parameter definitions given as a JSON object keyed by parameter name
+ */
+function parseParameters(value: string): Record<string, ParameterDefinition> | undefined {
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+      && Object.values(parsed).every(isParameterDefinition)) {
+      return parsed as Record<string, ParameterDefinition>;
+    }
+  } catch {
+    // Fall through to invalid value
+  }
+  return undefined;
+}
+
+const ATTRIBUTE_PARSERS: { [K in DataAttributeOption]: AttributeParser<NonNullable<EmbeddedOptions[K]>> } = {
+  theme: { attribute: 'theme', parse: parseNonEmpty, expected: 'a theme name' },
+  editable: { attribute: 'editable', parse: parseBoolean, expected: '"true" or "false"' },
+  baseUrl: { attribute: 'base-url', parse: parseUrl, expected: 'a URL' },
+  manifest: { attribute: 'manifest', parse: parseManifest, expected: 'a URL or a JSON array of paths' },
+  showOpenButton: { attribute: 'show-open-button', parse: parseBoolean, expected: '"true" or "false"' },
+  localFiles: { attribute: 'local-files', parse: parseBoolean, expected: '"true" or "false"' },
+  initQueries: {
+    attribute: 'init-queries',
+    parse: parseQueries,
+    expected: 'a JSON array of strings or semicolon-separated SQL',
+  },
+  queryTimeout: { attribute: 'query-timeout', parse: parseInteger(0), expected: 'a non-negative integer' },
+  maxRows: { attribute: 'max-rows', parse: parseInteger(0), expected: 'a non-negative integer' },
+  pageSize: { attribute: 'page-size', parse: parseInteger(1), expected: 'a positive integer' },
+  autorun: { attribute: 'autorun', parse: parseAutorun, expected: '"load", "visible", "true" or "false"' },
+  notebook: { attribute: 'notebook', parse: parseNonEmpty, expected: 'a notebook name' },
+  cellOrder: { attribute: 'cell-order', parse: parseInteger(0), expected: 'a non-negative integer' },
+  isolation: { attribute: 'isolation', parse: parseIsolation, expected: '"shared", "group" or "embed"' },
+  privateDatabase: { attribute: 'private-database', parse: parseBoolean, expected: '"true" or "false"' },
+  setupQueries: {
+    attribute: 'setup-queries',
+    parse: parseQueries,
+    expected: 'a JSON array of strings or semicolon-separated SQL',
+  },
+  parameters: {
+    attribute: 'parameters',
+    parse: parseParameters,
+    expected: 'a JSON object of parameter definitions',
+  },
+};
+
+/**
+ * Names of all option attributes (without prefix)
+ */
+export const OPTION_ATTRIBUTES = Object.values(ATTRIBUTE_PARSERS).map((parser) => parser.attribute);
+
+/**
+ * Read a single option from its attribute
+ */
+function readAttribute<K extends DataAttributeOption>(
+  element: HTMLElement,
+  option: K,
+  prefix: string,
+  options: Partial<EmbeddedOptions>
+): void {
+  const { attribute: name, parse, expected } = ATTRIBUTE_PARSERS[option];
+  const attribute = `${prefix}${name}`;
+  const raw = element.getAttribute(attribute);
+  if (raw === null) return;
+
+  const trimmed = raw.trim();
+  const value = parse(trimmed);
+  if (value === undefined) {
+    // Options without a meaning for an empty value (e.g. data-theme="") treat it as absent
+    if (trimmed !== '') {
+      logger.warn(`SQLWorkbench: ignoring invalid ${attribute}="${raw}" (expected ${expected})`);
+    }
+    return;
+  }
+
+  options[option] = value;
+}
+
+/**
+ * Parse embed options from the attributes of an element
+ * Invalid values are ignored with a warning
+ */
+export function parseOptionAttributes(element: HTMLElement, prefix: string): Partial<EmbeddedOptions> {
+  const options: Partial<EmbeddedOptions> = {};
+
+  for (const option of Object.keys(ATTRIBUTE_PARSERS) as DataAttributeOption[]) {
+    readAttribute(element, option, prefix, options);
+  }
+
+  return options;
+}
+
+/**
+ * Script type of hidden setup SQL blocks
+ */
+export const SETUP_SCRIPT_TYPE = 'text/x-sql-setup';
+
+/**
+ * Check whether an element is a setup SQL block (<script type="text/x-sql-setup">)
+ */
+export function isSetupScript(element: Element | null): element is HTMLScriptElement {
+  return element instanceof HTMLScriptElement && element.type.trim().toLowerCase() === SETUP_SCRIPT_TYPE;
+}
+
+/**
+ * Read the statements of setup SQL blocks
+ */
+export function parseSetupScripts(scripts: HTMLScriptElement[]): string[] {
+  return scripts.flatMap((script) => splitStatements(script.textContent ?? '').map((statement) => statement.sql));
+}
+
+/**
+ * Parse embed options from the data attributes of an element
+ */
+export function parseDataAttributes(element: HTMLElement): Partial<EmbeddedOptions> {
+  return parseOptionAttributes(element, 'data-');
+}
@@ -0,0 +1,112 @@
+/**
+ * DuckDB WASM bundle resolution
+ * Determines where the DuckDB module, WASM files and workers are loaded from
+ * (the configured CDN or a self-hosted copy)
+ */
+
+import { DuckDBBundlesConfig } from './types';
+
+/**
+ * Resolved locations of the DuckDB files
+ */
+export interface ResolvedBundles {
+  /** URL of the ES module (null to use a pre-loaded or bundled module, or the CDN) */
+  module: string | null;
+  bundles: DuckDBBundlesConfig;
+  /** Whether the files are self-hosted (no CDN fallback is used) */
+  selfHosted: boolean;
+}
+
+/**
+ * Make a URL absolute, since workers resolve relative URLs against their own (blob) location
+ */
+function toAbsoluteUrl(url: string): string {
+  if (typeof document === 'undefined') return url;
+  return new URL(url, document.baseURI).href;
+}
+
+/**
+ * Bundles for a directory with the same layout as the package's dist/ directory
+ */
+export function bundlesFromBaseUrl(baseUrl: string): DuckDBBundlesConfig {
+  const base = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+
+  return {
+    mvp: {
+      mainModule: `${base}duckdb-mvp.wasm`,
+      mainWorker: `${base}duckdb-browser-mvp.worker.js`,
+    },
+    eh: {
+      mainModule: `${base}duckdb-eh.wasm`,
+      mainWorker: `${base}duckdb-browser-eh.worker.js`,
+    },
+    coi: {
+      mainModule: `${base}duckdb-coi.wasm`,
+      mainWorker: `${base}duckdb-browser-coi.worker.js`,
+      pthreadWorker: `${base}duckdb-browser-coi.pthread.worker.js`,
+    },
+  };
+}
+
+/**
+ * Resolve the bundle configuration
+ * Without self-hosted bundles, the MVP and EH files are loaded from `${cdn}@${version}/dist/`
+ */
+export function resolveBundles(
+  bundles: string | DuckDBBundlesConfig | null | undefined,
+  cdn: string,
+  version: string
+): ResolvedBundles {
+  if (!bundles) {
+    // The COI bundle's pthread workers cannot be loaded cross-origin, so it is only used when self-hosted
+    const { mvp, eh } = bundlesFromBaseUrl(`${cdn}@${version}/dist/`);
+    return {
+      module: null,
+      bundles: { mvp, eh },
+      selfHosted: false,
+    };
+  }
+
+  const config = typeof bundles === 'string' ? bundlesFromBaseUrl(bundles) : bundles;
+  const resolved: DuckDBBundlesConfig = {
+    mvp: {
+      mainModule: toAbsoluteUrl(config.mvp.mainModule),
+      mainWorker: toAbsoluteUrl(config.mvp.mainWorker),
+    },
+  };
+
+  if (config.eh) {
+    resolved.eh = {
+      mainModule: toAbsoluteUrl(config.eh.mainModule),
+      mainWorker: toAbsoluteUrl(config.eh.mainWorker),
+    };
+  }
+
+  if (config.coi) {
+    resolved.coi = {
+      mainModule: toAbsoluteUrl(config.coi.mainModule),
+      mainWorker: toAbsoluteUrl(config.coi.mainWorker),
+      pthreadWorker: toAbsoluteUrl(config.coi.pthreadWorker),
+    };
+  }
+
+  return {
+    module: config.module ? toAbsoluteUrl(config.module) : null,
+    bundles: resolved,
+    selfHosted: true,
+  };
+}
+
+/**
+ * Check whether a URL has the same origin as the page
+ * Same-origin workers can be started directly, without a blob URL
+ */
+export function isSameOrigin(url: string): boolean {
+  if (typeof window === 'undefined') return false;
+
+  try {
+    return new URL(url, window.location.href).origin === window.location.origin;
+  } catch {
+    return false;
+  }
+}
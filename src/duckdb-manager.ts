@@ -2,32 +2,126 @@
  * DuckDB WASM manager with lazy loading and connection pooling
  */
 
-import { QueryResult } from './types';
+import {
+  QueryResult,
+  DuckDBBundlesConfig,
+  InitProgress,
+  ParameterValue,
+  TableData,
+  TableFormat,
+  RegisterTableOptions,
+} from './types';
+import { describeColumn, createValueConverter } from './value-converter';
+import { resolveBundles, isSameOrigin } from './duckdb-bundles';
+import { logger } from './logger';
+import { EventEmitter, EventHandler } from './event-emitter';
+import {
+  PersistenceStorage,
+  detectStorage,
+  getDatabaseFile,
+  loadFromIndexedDB,
+  saveToIndexedDB,
+  removeFromIndexedDB,
+  removeFromOPFS,
+} from './persistence';
 
 export interface DuckDBManagerConfig {
   version: string;
   cdn: string;
+  /** Self-hosted files (null to load from the CDN) */
+  bundles?: string | DuckDBBundlesConfig | null;
+  /** Name of the persistent database (null for an in-memory database) */
+  persistence?: string | null;
 }
 
+export interface QueryOptions {
+  /** Maximum number of rows to materialize (0 or undefined for all rows) */
+  maxRows?: number;
+  /** Isolated session to run the query in (the shared connection if not set) */
+  session?: SessionConfig;
+  /** Values of the positional parameters ($1, $2, ...), bound through a prepared statement */
+  params?: ParameterValue[];
+}
+
+/**
+ * Result of query(), which can be cancelled while it is waiting or running
+ * cancel() resolves to false if the query has already finished or been cancelled
+ */
+export type PendingQuery = Promise<QueryResult> & { cancel(): Promise<boolean> };
+
+/**
+ * Isolated database session
+ * Each session has its own connection, created on first use
+ */
+export interface SessionConfig {
+  /** Session key; queries with the same key share a connection */
+  id: string;
+  /** Attach a private in-memory database and use it as the session's default database */
+  privateDatabase?: boolean;
+}
+
+// Delay for batching writes to persistent storage, in milliseconds
+const PERSIST_DELAY = 500;
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+interface Session {
+  connection: any;
+  /** Name of the attached private database, if any */
+  database: string | null;
+}
+
+interface ActiveQuery {
+  cancelled: boolean;
+  finished: boolean;
+  /** Connection the query was sent on (null while it is waiting) */
+  connection: any;
+}
+
+// Key of the shared connection in activeQueries
+const SHARED_SESSION = '';
+
 /**
  * Singleton DuckDB manager
- * Manages a shared DuckDB instance across all embeds
+ * Manages a shared DuckDB instance across all embeds, with a shared connection
+ * and optional isolated sessions
  */
 class DuckDBManager {
   private db: any = null;
   private connection: any = null;
   private initPromise: Promise<void> | null = null;
   private config: DuckDBManagerConfig;
-  private registeredFiles = new Set<string>();
+  // URLs of registered files, by name
+  private registeredFiles = new Map<string, string>();
+  private localFiles = new Set<string>();
+  private tableCounter = 0;
+  private storage: PersistenceStorage | null = null;
+  // Default database of connections (switched back to when closing sessions)
+  private mainDatabase = 'memory';
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
   private duckdbModule: any = null;
   private initQueriesExecuted = false;
   private initQueriesPromise: Promise<void> | null = null;
   private initQueries: string[] = [];
+  // Queries currently sent on the connection of each session
+  private activeQueries = new Map<string, ActiveQuery>();
+  // Last work queued on each connection
+  private connectionQueues = new WeakMap<object, Promise<unknown>>();
+  private sessions = new Map<string, Promise<Session>>();
+  private sessionOwners = new Map<string, number>();
+  private sessionCounter = 0;
+  private executedSetupQueries = new Map<string, Set<string>>();
+  private progress: InitProgress | null = null;
+  private events = new EventEmitter<{ progress: InitProgress; close: void }>();
 
   constructor() {
     this.config = {
       version: '1.31.1-dev1.0',
       cdn: 'https://cdn.jsdelivr.net/npm/@duckdb/duckdb-wasm',
+      bundles: null,
+      persistence: null,
     };
   }
 
@@ -36,7 +130,7 @@ class DuckDBManager {
    */
   configure(config: Partial<DuckDBManagerConfig>): void {
     if (this.db) {
-      console.warn('DuckDB already initialized, configuration will not take effect');
+      logger.warn('DuckDB already initialized, configuration will not take effect');
       return;
     }
     this.config = { ...this.config, ...config };
@@ -48,12 +142,48 @@ class DuckDBManager {
    */
   configureInitQueries(queries: string[]): void {
     if (this.initQueriesExecuted) {
-      console.warn('Init queries already executed, configuration will not take effect');
+      logger.warn('Init queries already executed, configuration will not take effect');
       return;
     }
     this.initQueries = queries;
   }
 
+  /**
+   * Load DuckDB and run the init queries ahead of the first query
+   */
+  async preload(): Promise<void> {
+    await this.initialize();
+    await this.executeInitQueries();
+  }
+
+  /**
+   * Get the current initialization progress (null before initialization starts)
+   */
+  getProgress(): InitProgress | null {
+    return this.progress;
+  }
+
+  /**
+   * Subscribe to initialization progress updates
+   * Returns a function that removes the handler
+   */
+  onProgress(handler: EventHandler<InitProgress>): () => void {
+    return this.events.on('progress', handler);
+  }
+
+  /**
+   * Subscribe to DuckDB being closed (e.g. by resetDatabase()), which drops the registered local files
+   * Returns a function that removes the handler
+   */
+  onClose(handler: EventHandler<void>): () => void {
+    return this.events.on('close', handler);
+  }
+
+  private setProgress(progress: InitProgress): void {
+    this.progress = progress;
+    this.events.emit('progress', progress);
+  }
+
   /**
    * Initialize DuckDB WASM (lazy loaded)
    */
@@ -78,25 +208,46 @@ class DuckDBManager {
 
     // Check if already loaded globally
     if (typeof window !== 'undefined' && (window as any).duckdb) {
-      console.log('Using pre-loaded DuckDB from window.duckdb');
+      logger.info('Using pre-loaded DuckDB from window.duckdb');
       this.duckdbModule = (window as any).duckdb;
       return this.duckdbModule!;
     }
 
+    const { module: moduleUrl, selfHosted } = resolveBundles(this.config.bundles, this.config.cdn, this.config.version);
+
+    // Self-hosted module build
+    if (moduleUrl) {
+      try {
+        logger.info('Loading DuckDB from:', moduleUrl);
+        this.duckdbModule = await import(/* @vite-ignore */ moduleUrl);
+        return this.duckdbModule;
+      } catch (error) {
+        throw new Error(`Failed to load DuckDB from ${moduleUrl}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
     // Try dynamic import - works in development (bundled) or if available as module
     try {
-      console.log('Attempting to load DuckDB via dynamic import...');
+      logger.debug('Attempting to load DuckDB via dynamic import...');
       const duckdbModule = await import('@duckdb/duckdb-wasm');
       this.duckdbModule = duckdbModule;
-      console.log('DuckDB module loaded via dynamic import');
+      logger.info('DuckDB module loaded via dynamic import');
       return this.duckdbModule;
     } catch (importError) {
+      // Self-hosted setups must not fall back to the CDN
+      if (selfHosted) {
+        throw new Error(
+          `Failed to load DuckDB: ${importError instanceof Error ? importError.message : String(importError)}. ` +
+          'Set duckdbBundles.module to the URL of a self-hosted DuckDB module or pre-load window.duckdb.'
+        );
+      }
+
       // Dynamic import failed, try loading from CDN
-      console.log('Dynamic import failed, loading from jsDelivr CDN...');
+      logger.debug('Dynamic import failed, loading from CDN...');
 
       try {
-        const cdnUrl = `https://cdn.jsdelivr.net/npm/@duckdb/duckdb-wasm@${this.config.version}/+esm`;
-        console.log('Loading DuckDB from:', cdnUrl);
+        const cdnUrl = `${this.config.cdn}@${this.config.version}/+esm`;
+        logger.info('Loading DuckDB from:', cdnUrl);
 
         const duckdbModule = await import(/* @vite-ignore */ cdnUrl);
         this.duckdbModule = duckdbModule;
@@ -106,7 +257,7 @@ class DuckDBManager {
           (window as any).duckdb = duckdbModule;
         }
 
-        console.log('DuckDB module loaded from jsDelivr CDN');
+        logger.debug('DuckDB module loaded from CDN');
         return this.duckdbModule;
       } catch (cdnError) {
         throw new Error(
@@ -122,44 +273,70 @@ class DuckDBManager {
   private async doInitialize(): Promise<void> {
     try {
       // Load DuckDB module from CDN
+      this.setProgress({ stage: 'loading-module' });
       const duckdb = await this.loadDuckDBModule();
 
-      const logger = new duckdb.ConsoleLogger();
+      // Forward DuckDB's own log entries at debug level
+      const duckdbLogger = { log: (entry: unknown) => logger.debug('DuckDB:', entry) };
 
-      // Get bundles - this provides the correct paths
-      const JSDELIVR_BUNDLES = duckdb.getJsDelivrBundles();
+      // Get bundles from the configured CDN or self-hosted location
+      // CDN files must match the version of the loaded module, which may be a bundled copy
+      const version: string = duckdb.PACKAGE_VERSION ?? this.config.version;
+      const { bundles } = resolveBundles(this.config.bundles, this.config.cdn, version);
 
       // Select appropriate bundle for the platform
-      const bundle = await duckdb.selectBundle(JSDELIVR_BUNDLES);
+      const bundle = await duckdb.selectBundle(bundles);
 
-      // Fetch the worker code and create a blob URL to avoid CORS issues
-      console.log('Loading DuckDB WASM worker from:', bundle.mainWorker);
+      logger.debug('Loading DuckDB WASM worker from:', bundle.mainWorker);
+      this.setProgress({ stage: 'fetching-worker' });
 
-      const workerResponse = await fetch(bundle.mainWorker!);
-      if (!workerResponse.ok) {
-        throw new Error(`Failed to fetch worker: ${workerResponse.status} ${workerResponse.statusText}`);
+      // Same-origin workers are started directly (no blob: URL needed under strict CSPs);
+      // cross-origin workers are fetched and started from a blob URL to avoid CORS issues
+      let workerUrl: string | null = null;
+      let worker: Worker;
+      if (isSameOrigin(bundle.mainWorker!)) {
+        worker = new Worker(bundle.mainWorker!);
+      } else {
+        const workerBlob = await this.fetchWorker(bundle.mainWorker!);
+        workerUrl = URL.createObjectURL(workerBlob);
+        worker = new Worker(workerUrl);
       }
 
-      const workerBlob = await workerResponse.blob();
-      const workerUrl = URL.createObjectURL(workerBlob);
-
-      // Create worker from blob URL
-      const worker = new Worker(workerUrl);
-
       // Initialize DuckDB
-      console.log('Initializing DuckDB WASM...');
-      this.db = new duckdb.AsyncDuckDB(logger, worker);
-      await this.db.instantiate(bundle.mainModule, bundle.mainWorker);
+      logger.debug('Initializing DuckDB WASM...');
+      this.db = new duckdb.AsyncDuckDB(duckdbLogger, worker);
+      this.setProgress({ stage: 'instantiating' });
+      await this.db.instantiate(
+        bundle.mainModule,
+        bundle.pthreadWorker,
+        (progress: { bytesLoaded: number; bytesTotal: number }) => {
+          this.setProgress({
+            stage: 'instantiating',
+            loaded: progress.bytesLoaded,
+            total: progress.bytesTotal > 0 ? progress.bytesTotal : undefined,
+          });
+        }
+      );
+
+      await this.openDatabase();
 
       // Create connection
       this.connection = await this.db.connect();
-      console.log('DuckDB WASM initialized successfully');
+      logger.info('DuckDB WASM initialized successfully');
 
       // Clean up blob URL
-      URL.revokeObjectURL(workerUrl);
+      if (workerUrl) {
+        URL.revokeObjectURL(workerUrl);
+      }
+
+      // Without init queries, DuckDB is ready now
+      if (this.initQueriesExecuted || !this.initQueries.length) {
+        this.setProgress({ stage: 'ready' });
+      }
     } catch (error) {
       this.initPromise = null;
-      console.error('DuckDB initialization error:', error);
+      this.progress = null;
+      logger.error('DuckDB initialization error:', error);
 
       if (error instanceof Error && error.message.includes('CORS')) {
         throw new Error('Failed to initialize DuckDB: CORS policy blocked worker loading. This may be a browser security restriction in development mode.');
@@ -169,6 +346,127 @@ class DuckDBManager {
     }
   }
 
+  /**
+   * Open the persistent database, if configured
+   * Without suitable storage, or if the file cannot be opened (e.g. it is locked
+   * by another tab), the in-memory database is used
+   */
+  private async openDatabase(): Promise<void> {
+    const name = this.config.persistence;
+    if (!name) return;
+
+    const storage = detectStorage();
+    if (!storage) {
+      logger.warn('No persistent storage available, using an in-memory database');
+      return;
+    }
+
+    const file = getDatabaseFile(name);
+    try {
+      if (storage === 'opfs') {
+        // DuckDBAccessMode.READ_WRITE = 3
+        await this.db.open({ path: `opfs://${file}`, accessMode: 3 });
+      } else {
+        const contents = await loadFromIndexedDB(name);
+        if (contents) {
+          await this.db.registerFileBuffer(file, contents);
+        }
+        await this.db.open({ path: file, accessMode: 3 });
+      }
+    } catch (error) {
+      logger.warn('Failed to open the persistent database, using an in-memory database:', error);
+      return;
+    }
+
+    this.storage = storage;
+    this.mainDatabase = quoteIdentifier(name);
+    logger.info(`Opened persistent database "${name}" (${storage})`);
+  }
+
+  /**
+   * Write changes to persistent storage soon
+   * Writes are batched, since each one checkpoints the database
+   */
+  private schedulePersist(): void {
+    if (!this.storage || this.persistTimer !== null) return;
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist().catch((error) => {
+        logger.warn('Failed to persist the database:', error);
+      });
+    }, PERSIST_DELAY);
+  }
+
+  /**
+   * Checkpoint the database, and save the file to IndexedDB if OPFS is not used
+   */
+  private async persist(): Promise<void> {
+    const name = this.config.persistence;
+    if (!this.storage || !this.connection || !name) return;
+
+    await this.exclusive(this.connection, () => this.connection.query('CHECKPOINT'));
+
+    if (this.storage === 'indexeddb') {
+      const contents = await this.db.copyFileToBuffer(getDatabaseFile(name));
+      await saveToIndexedDB(name, contents);
+    }
+  }
+
+  /**
+   * Close DuckDB and delete the persistent database, if any
+   * The next query starts with an empty database
+   */
+  async resetDatabase(): Promise<void> {
+    // Discard pending changes instead of saving them on close
+    if (this.persistTimer !== null) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    this.storage = null;
+
+    await this.close();
+
+    const name = this.config.persistence;
+    if (!name) return;
+
+    const storage = detectStorage();
+    if (storage === 'opfs') {
+      await removeFromOPFS(name);
+    } else if (storage === 'indexeddb') {
+      await removeFromIndexedDB(name);
+    }
+  }
+
+  /**
+   * Fetch the worker script, reporting the downloaded bytes
+   */
+  private async fetchWorker(url: string): Promise<Blob> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch worker: ${response.status} ${response.statusText}`);
+    }
+
+    if (!response.body) {
+      return response.blob();
+    }
+
+    const total = Number(response.headers?.get('content-length')) || undefined;
+    const reader = response.body.getReader();
+    const chunks: Uint8Array<ArrayBuffer>[] = [];
+    let loaded = 0;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      loaded += value.byteLength;
+      this.setProgress({ stage: 'fetching-worker', loaded, total });
+    }
+
+    return new Blob(chunks);
+  }
+
   /**
    * Execute initialization queries once
    */
@@ -191,18 +489,21 @@ class DuckDBManager {
 
     this.initQueriesPromise = (async () => {
       try {
-        console.log(`Executing ${this.initQueries.length} initialization queries...`);
+        logger.info(`Executing ${this.initQueries.length} initialization queries...`);
 
         for (let i = 0; i < this.initQueries.length; i++) {
           const query = this.initQueries[i];
-          console.log(`Init query [${i + 1}/${this.initQueries.length}]: ${query}`);
+          logger.debug(`Init query [${i + 1}/${this.initQueries.length}]: ${query}`);
+          this.setProgress({ stage: 'init-queries', loaded: i, total: this.initQueries.length });
 
           // Execute via connection (DuckDB must be initialized first)
           await this.connection.query(query);
         }
 
-        console.log('Initialization queries completed successfully');
+        logger.info('Initialization queries completed successfully');
         this.initQueriesExecuted = true;
+        this.schedulePersist();
+        this.setProgress({ stage: 'ready' });
       } catch (error) {
         // Reset state to allow retry on next run
         this.initQueriesPromise = null;
@@ -215,8 +516,40 @@ class DuckDBManager {
     return this.initQueriesPromise;
   }
 
+  /**
+   * Execute per-embed setup queries in a session (the shared connection by default)
+   * Each distinct statement runs at most once per session
+   */
+  async runSetupQueries(queries: string[], session?: SessionConfig): Promise<void> {
+    if (!queries.length) return;
+
+    await this.initialize();
+    await this.executeInitQueries();
+
+    const connection = await this.getConnection(session);
+    const sessionId = session?.id ?? SHARED_SESSION;
+    let executed = this.executedSetupQueries.get(sessionId);
+    if (!executed) {
+      executed = new Set();
+      this.executedSetupQueries.set(sessionId, executed);
+    }
+
+    for (const query of queries) {
+      if (executed.has(query)) continue;
+
+      try {
+        await this.exclusive(connection, () => connection.query(query));
+      } catch (error) {
+        throw new Error(`Setup query failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      executed.add(query);
+      this.schedulePersist();
+    }
+  }
+
   /**
    * Register a file URL with DuckDB
+   * Registering another URL under the same name replaces the previous file
    */
   async registerFile(name: string, url: string): Promise<void> {
     await this.initialize();
@@ -225,67 +558,453 @@ class DuckDBManager {
       throw new Error('DuckDB not initialized');
     }
 
-    // Skip if already registered
-    if (this.registeredFiles.has(url)) {
+    // Skip if already registered; local files take precedence over remote files of the same name
+    if (this.registeredFiles.get(name) === url || this.localFiles.has(name)) {
       return;
     }
 
     try {
+      if (this.registeredFiles.has(name)) {
+        await this.db.dropFile(name);
+        this.registeredFiles.delete(name);
+      }
+
       // DuckDBDataProtocol.HTTP = 0
       await this.db.registerFileURL(name, url, 0, false);
-      this.registeredFiles.add(url);
+      this.registeredFiles.set(name, url);
+    } catch (error) {
+      throw new Error(`Failed to register file ${name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Register a local file (e.g. from a file picker or drag-and-drop) with DuckDB
+   * Files are read through a browser file handle; buffers are copied into DuckDB.
+   * Registering a file under an existing name replaces it.
+   */
+  async registerLocalFile(name: string, file: File | Uint8Array): Promise<void> {
+    await this.initialize();
+
+    if (!this.db) {
+      throw new Error('DuckDB not initialized');
+    }
+
+    try {
+      if (this.localFiles.has(name)) {
+        await this.db.dropFile(name);
+        this.localFiles.delete(name);
+      }
+
+      if (file instanceof Uint8Array) {
+        await this.db.registerFileBuffer(name, file);
+      } else {
+        // DuckDBDataProtocol.BROWSER_FILEREADER = 2
+        await this.db.registerFileHandle(name, file, 2, true);
+      }
+      this.localFiles.add(name);
     } catch (error) {
       throw new Error(`Failed to register file ${name}: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Get the names of the registered local files
+   */
+  getLocalFiles(): string[] {
+    return [...this.localFiles];
+  }
+
+  /**
+   * Create a table from in-memory data, replacing an existing table of the same name
+   * JSON data is inserted through a temporary file; Arrow IPC streams are inserted directly.
+   */
+  async registerTable(name: string, data: TableData, options: RegisterTableOptions = {}): Promise<void> {
+    await this.initialize();
+
+    if (!this.db || !this.connection) {
+      throw new Error('DuckDB not initialized');
+    }
+
+    const binary = data instanceof Uint8Array || data instanceof ArrayBuffer;
+    const format = options.format ?? (binary ? 'arrow' : 'json');
+
+    return this.exclusive(this.connection, () => this.createTable(name, data, format, binary));
+  }
+
+  private async createTable(name: string, data: TableData, format: TableFormat, binary: boolean): Promise<void> {
+    try {
+      await this.connection.query(`DROP TABLE IF EXISTS ${quoteIdentifier(name)}`);
+
+      if (format === 'arrow') {
+        if (!binary) {
+          throw new Error('Arrow data must be an IPC stream (Uint8Array or ArrayBuffer)');
+        }
+        await this.connection.insertArrowFromIPCStream(
+          data instanceof ArrayBuffer ? new Uint8Array(data) : data,
+          { name, create: true }
+        );
+        this.schedulePersist();
+        return;
+      }
+
+      if (binary) {
+        throw new Error('JSON data must be an array, an object or a string');
+      }
+
+      const fileName = `sql-workbench-table-${++this.tableCounter}.json`;
+      const columns = typeof data === 'object' && !Array.isArray(data);
+      await this.db.registerFileText(fileName, typeof data === 'string' ? data : JSON.stringify(data));
+      try {
+        await this.connection.insertJSONFromPath(fileName, {
+          name,
+          create: true,
+          // Objects of arrays hold one array per column; arrays and JSON text are detected by DuckDB
+          ...(columns ? { shape: 'column-object' } : {}),
+        });
+      } finally {
+        await this.db.dropFile(fileName).catch(() => undefined);
+      }
+      this.schedulePersist();
+    } catch (error) {
+      throw new Error(`Failed to register table ${name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Run work on a connection once the work queued on it before has finished
+   * DuckDB closes the streamed result of a connection when another query starts
+   * on it, so queries, streams and other statements never overlap on a connection
+   */
+  private exclusive<T>(connection: object, work: () => Promise<T>): Promise<T> {
+    const previous = this.connectionQueues.get(connection) ?? Promise.resolve();
+    const result = previous.then(work);
+    this.connectionQueues.set(connection, result.catch(() => undefined));
+    return result;
+  }
+
   /**
    * Execute SQL query
+   * The query is sent as a pending query so that it can be interrupted with the
+   * cancel() method of the returned promise. Queries with parameters are sent
+   * through a prepared statement. Result batches are streamed; only the first
+   * maxRows rows are converted to JavaScript values, the remaining batches are only counted.
    */
-  async query(sql: string): Promise<QueryResult> {
+  query(sql: string, options: QueryOptions = {}): PendingQuery {
+    const activeQuery: ActiveQuery = { cancelled: false, finished: false, connection: null };
+    const result = this.executeQuery(sql, options, activeQuery).finally(() => {
+      activeQuery.finished = true;
+    });
+    return Object.assign(result, { cancel: () => this.interrupt(activeQuery) });
+  }
+
+  private async executeQuery(sql: string, options: QueryOptions, activeQuery: ActiveQuery): Promise<QueryResult> {
     await this.initialize();
 
     // Execute init queries if configured and not yet executed
     await this.executeInitQueries();
 
-    if (!this.connection) {
-      throw new Error('DuckDB connection not available');
+    const connection = await this.getConnection(options.session);
+    return this.exclusive(connection, () => this.streamQuery(connection, sql, options, activeQuery));
+  }
+
+  private async streamQuery(
+    connection: any,
+    sql: string,
+    options: QueryOptions,
+    activeQuery: ActiveQuery
+  ): Promise<QueryResult> {
+    // Cancelled while DuckDB was loading or earlier queries were running
+    if (activeQuery.cancelled) {
+      throw new Error('Query was cancelled');
     }
 
+    const sessionId = options.session?.id ?? SHARED_SESSION;
+    activeQuery.connection = connection;
+    this.activeQueries.set(sessionId, activeQuery);
+
     const startTime = performance.now();
+    let statement: any = null;
 
     try {
-      const result = await this.connection.query(sql);
-      const executionTime = performance.now() - startTime;
+      let reader;
+      if (options.params?.length) {
+        statement = await connection.prepare(sql);
+        reader = await statement.send(...options.params);
+      } else {
+        reader = await connection.send(sql, true);
+      }
 
-      // Convert result to our format
-      const columns = result.schema.fields.map((f: any) => f.name);
+      // Convert result batches to our format
+      const fields = reader.schema.fields;
+      const columns = fields.map((f: any) => f.name);
+      const columnTypes = fields.map((f: any) => describeColumn(f));
+      const converters = fields.map((f: any) => createValueConverter(f));
       const rows: unknown[][] = [];
+      const maxRows = options.maxRows && options.maxRows > 0 ? options.maxRows : Infinity;
+      let truncated = false;
+
+      for await (const batch of reader) {
+        if (activeQuery.cancelled) break;
+
+        // Rows beyond maxRows are not transferred from the worker, only noted
+        if (rows.length >= maxRows) {
+          truncated = true;
+          break;
+        }
+
+        const convertible = Math.min(batch.numRows, maxRows - rows.length);
+
+        for (let i = 0; i < convertible; i++) {
+          const row: unknown[] = [];
+          for (let j = 0; j < batch.numCols; j++) {
+            const col = batch.getChildAt(j);
+            const convert = converters[j];
+            const value = col?.get(i) ?? null;
+            row.push(convert ? convert(value) : value);
+          }
+          rows.push(row);
+        }
+
+        if (convertible < batch.numRows) {
+          truncated = true;
+          break;
+        }
+      }
+
+      if (activeQuery.cancelled) {
+        throw new Error('Query was cancelled');
+      }
 
-      for (let i = 0; i < result.numRows; i++) {
-        const row: unknown[] = [];
-        for (let j = 0; j < result.numCols; j++) {
-          const col = result.getChildAt(j);
-          row.push(col?.get(i) ?? null);
+      // Stop DuckDB from producing the remaining batches
+      if (truncated) {
+        try {
+          await connection.cancelSent();
+        } catch (error) {
+          logger.warn('Failed to stop the truncated query:', error);
         }
-        rows.push(row);
       }
 
+      const executionTime = performance.now() - startTime;
+      this.schedulePersist();
+
       return {
         columns,
+        columnTypes,
         rows,
-        rowCount: result.numRows,
+        rowCount: rows.length,
+        truncated,
         executionTime,
       };
     } catch (error) {
+      if (activeQuery.cancelled) {
+        throw new Error('Query was cancelled');
+      }
       throw new Error(`Query execution failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      if (this.activeQueries.get(sessionId) === activeQuery) {
+        this.activeQueries.delete(sessionId);
+      }
+      await statement?.close().catch(() => undefined);
     }
   }
 
+  /**
+   * Cancel the query currently executing in a session (the shared connection by default)
+   * Returns false if no query was running
+   */
+  async cancel(sessionId: string = SHARED_SESSION): Promise<boolean> {
+    const activeQuery = this.activeQueries.get(sessionId);
+    return activeQuery ? this.interrupt(activeQuery) : false;
+  }
+
+  /**
+   * Cancel a query: queries that have not been sent yet are dropped, sent ones are interrupted
+   */
+  private async interrupt(activeQuery: ActiveQuery): Promise<boolean> {
+    if (activeQuery.cancelled || activeQuery.finished) {
+      return false;
+    }
+
+    activeQuery.cancelled = true;
+    if (!activeQuery.connection) {
+      return true;
+    }
+
+    try {
+      await activeQuery.connection.cancelSent();
+    } catch (error) {
+      // The query may have completed in the meantime
+      logger.warn('Failed to interrupt pending query:', error);
+    }
+
+    return true;
+  }
+
+  /**
+   * Export the result of a query as a Parquet file
+   * DuckDB writes the file into its virtual filesystem, which is then copied out and dropped.
+   */
+  async exportParquet(
+    sql: string,
+    session?: SessionConfig,
+    params: ParameterValue[] = []
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    await this.initialize();
+
+    const connection = await this.getConnection(session);
+    const db = this.db;
+    const fileName = `sql-workbench-export-${Date.now()}.parquet`;
+
+    try {
+      // The line break ends a trailing line comment before the closing parenthesis
+      const copy = `COPY (${sql}\n) TO '${fileName}' (FORMAT PARQUET)`;
+      await this.exclusive(connection, async () => {
+        if (params.length > 0) {
+          const statement = await connection.prepare(copy);
+          try {
+            await statement.query(...params);
+          } finally {
+            await statement.close();
+          }
+        } else {
+          await connection.query(copy);
+        }
+      });
+      return await db.copyFileToBuffer(fileName);
+    } catch (error) {
+      throw new Error(`Parquet export failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      await db.dropFile(fileName).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Get the connection of a session (the shared connection if no session is given)
+   * Session connections are created on first use
+   */
+  private async getConnection(session?: SessionConfig): Promise<any> {
+    if (!session) {
+      if (!this.connection) {
+        throw new Error('DuckDB connection not available');
+      }
+      return this.connection;
+    }
+
+    let pending = this.sessions.get(session.id);
+    if (!pending) {
+      pending = this.openSession(session);
+      this.sessions.set(session.id, pending);
+      // Allow the next query to retry
+      pending.catch(() => this.sessions.delete(session.id));
+    }
+
+    return (await pending).connection;
+  }
+
+  private async openSession(session: SessionConfig): Promise<Session> {
+    if (!this.db) {
+      throw new Error('DuckDB connection not available');
+    }
+
+    const connection = await this.db.connect();
+    if (!session.privateDatabase) {
+      return { connection, database: null };
+    }
+
+    const database = `sql_workbench_session_${++this.sessionCounter}`;
+    try {
+      await connection.query(`ATTACH ':memory:' AS ${database}`);
+      await connection.query(`USE ${database}`);
+    } catch (error) {
+      await connection.close().catch(() => undefined);
+      throw new Error(`Failed to create session database: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return { connection, database };
+  }
+
+  /**
+   * Register an owner of a session
+   * The session is closed once all owners have released it
+   */
+  retainSession(id: string): void {
+    this.sessionOwners.set(id, (this.sessionOwners.get(id) ?? 0) + 1);
+  }
+
+  /**
+   * Release a session, closing it when it has no owners left
+   */
+  releaseSession(id: string): void {
+    const owners = (this.sessionOwners.get(id) ?? 0) - 1;
+    if (owners > 0) {
+      this.sessionOwners.set(id, owners);
+      return;
+    }
+
+    this.sessionOwners.delete(id);
+    this.closeSession(id).catch((error) => {
+      logger.error('Failed to close DuckDB session:', error);
+    });
+  }
+
+  /**
+   * Close a session's connection and detach its private database
+   */
+  async closeSession(id: string): Promise<void> {
+    const pending = this.sessions.get(id);
+    if (!pending) return;
+
+    this.sessions.delete(id);
+    this.activeQueries.delete(id);
+    this.executedSetupQueries.delete(id);
+
+    let session: Session;
+    try {
+      session = await pending;
+    } catch {
+      // The session was never opened
+      return;
+    }
+
+    await this.exclusive(session.connection, async () => {
+      try {
+        if (session.database) {
+          // The default database cannot be detached, so switch back to the main database first
+          await session.connection.query(`USE ${this.mainDatabase}`);
+          await session.connection.query(`DETACH ${session.database}`);
+        }
+      } finally {
+        await session.connection.close();
+      }
+    });
+  }
+
+  /**
+   * Get the keys of all open (or opening) sessions
+   */
+  getSessionIds(): string[] {
+    return [...this.sessions.keys()];
+  }
+
   /**
    * Close connection and cleanup
    */
   async close(): Promise<void> {
+    // Save pending changes before the database is terminated
+    if (this.persistTimer !== null) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+      await this.persist().catch((error) => {
+        logger.warn('Failed to persist the database:', error);
+      });
+    }
+
+    for (const id of [...this.sessions.keys()]) {
+      await this.closeSession(id).catch((error) => {
+        logger.error('Failed to close DuckDB session:', error);
+      });
+    }
+
     if (this.connection) {
       await this.connection.close();
       this.connection = null;
@@ -297,7 +1016,14 @@ class DuckDBManager {
     }
 
     this.initPromise = null;
+    this.progress = null;
+    this.storage = null;
+    this.mainDatabase = 'memory';
+    this.activeQueries.clear();
+    this.executedSetupQueries.clear();
     this.registeredFiles.clear();
+    this.localFiles.clear();
+    this.events.emit('close', undefined);
 
     // Reset init queries state
     this.initQueriesExecuted = false;
@@ -3,12 +3,70 @@
  * Main class for creating interactive SQL embeds
  */
 
-import { EmbeddedOptions, EmbeddedState, QueryResult, DEFAULT_CONFIG } from './types';
+import {
+  EmbeddedOptions,
+  EmbeddedState,
+  EmbeddedEventMap,
+  CellStatus,
+  ExportFormat,
+  InitProgress,
+  InitStage,
+  ParameterValue,
+  QueryResult,
+  StatementResult,
+  DEFAULT_CONFIG,
+} from './types';
 import { highlightSQL, debounce } from './syntax-highlight';
-import { resolvePathsInSQL } from './path-resolver';
-import { duckDBManager } from './duckdb-manager';
+import {
+  extractFileReferences,
+  hasNonHttpScheme,
+  resolvePath,
+  getVirtualPath,
+  rewriteFilePaths,
+} from './path-resolver';
+import { splitStatements } from './sql-tokenizer';
+import { isGlob, globToRegExp, loadManifest, expandGlob, getVirtualGlob } from './manifest';
+import { formatValue } from './value-converter';
+import { TEXT_EXPORT_FORMATS, serializeResult, downloadBlob, copyToClipboard } from './export';
+import { duckDBManager, SessionConfig, PendingQuery } from './duckdb-manager';
 import { getThemeConfig, applyThemeConfig } from './styles';
 import { getGlobalConfig } from './config-store';
+import { parseDataAttributes, parseSetupScripts, isSetupScript } from './data-attributes';
+import { EventEmitter, EventHandler } from './event-emitter';
+import { Notebook, getNotebook } from './notebook';
+import { logger } from './logger';
+import { configureDuckDB, schedulePagePreload } from './preload';
+import {
+  BoundQuery,
+  findParameters,
+  bindParameters,
+  getParameterType,
+  getInitialValue,
+  parseInputValue,
+} from './parameters';
+
+// Counter for per-embed session keys
+let embedCounter = 0;
+
+// Labels of the DuckDB initialization stages shown while loading
+const INIT_STAGE_LABELS: [Exclude<InitStage, 'ready'>, string][] = [
+  ['loading-module', 'Loading DuckDB'],
+  ['fetching-worker', 'Fetching worker'],
+  ['instantiating', 'Instantiating WebAssembly'],
+  ['init-queries', 'Running init queries'],
+];
+
+// File types offered by the file picker (any dropped file can be registered)
+const LOCAL_FILE_TYPES = '.csv,.tsv,.parquet,.json,.jsonl,.ndjson,.arrow';
+
+/**
+ * Format a byte count for display
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
 
 export class Embedded {
   private element: HTMLElement;
@@ -19,15 +77,43 @@ export class Embedded {
   private runButton: HTMLButtonElement | null = null;
   private resetButton: HTMLButtonElement | null = null;
   private openButton: HTMLButtonElement | null = null;
+  private runAllButton: HTMLButtonElement | null = null;
+  private cellStatusElement: HTMLSpanElement | null = null;
+  private parametersElement: HTMLDivElement | null = null;
+  private addFileButton: HTMLButtonElement | null = null;
+  private fileInput: HTMLInputElement | null = null;
+  private filesElement: HTMLDivElement | null = null;
+  // Local files added to this embed, with their sizes in bytes
+  private localFiles = new Map<string, number>();
+  private stopCloseUpdates: (() => void) | undefined;
+  private parameterNames: string[] = [];
+  private parameterValues = new Map<string, ParameterValue>();
+  // Parameter values of the last run (used to export its results)
+  private resultParameters = new Map<string, ParameterValue>();
+  // Virtual paths of the files referenced by the last run, by path in the SQL
+  private resultFiles = new Map<string, string>();
   private initialCode: string;
   private state: EmbeddedState = 'idle';
+  private results: QueryResult[] = [];
+  private lastResult: QueryResult | null = null;
+  private resultPages: number[] = [];
+  private resultQueries: string[] = [];
+  private cancelReason: 'user' | 'timeout' | null = null;
+  // Query of the current run that is waiting or running in DuckDB
+  private pendingQuery: PendingQuery | null = null;
+  // Timer of the query timeout, started when the run sends its first query
+  private queryTimer: ReturnType<typeof setTimeout> | null = null;
   private destroyed = false;
+  private events = new EventEmitter<EmbeddedEventMap>();
+  private visibilityObserver: IntersectionObserver | null = null;
+  private notebook: Notebook | null = null;
+  private session: SessionConfig | undefined;
 
   constructor(element: HTMLElement, options: Partial<EmbeddedOptions> = {}) {
     this.element = element;
 
-    // Extract theme from data-theme attribute if present
-    const dataTheme = element.getAttribute('data-theme');
+    // Per-embed options from data attributes (data-theme, data-editable, ...)
+    const dataOptions = parseDataAttributes(element);
 
     // Merge with global config for customThemes if not provided
     const globalConfig = getGlobalConfig();
@@ -41,15 +127,39 @@ export class Embedded {
 
     this.options = {
       ...mergedOptions,
-      // Priority: data-theme attribute > options.theme > DEFAULT_CONFIG.theme
-      theme: dataTheme ?? options.theme ?? DEFAULT_CONFIG.theme,
+      // Priority: data attribute > options > DEFAULT_CONFIG
+      ...dataOptions,
+      theme: dataOptions.theme ?? options.theme ?? DEFAULT_CONFIG.theme,
+      notebook: dataOptions.notebook ?? options.notebook ?? null,
+      cellOrder: dataOptions.cellOrder ?? options.cellOrder ?? null,
+      parameters: dataOptions.parameters ?? options.parameters ?? {},
+      setupQueries: [
+        ...(dataOptions.setupQueries ?? options.setupQueries ?? []),
+        ...this.extractSetupScripts(),
+      ],
       initialCode: options.initialCode ?? this.extractInitialCode(),
     };
     this.initialCode = this.options.initialCode;
+    this.session = this.resolveSession();
+    if (this.session) {
+      duckDBManager.retainSession(this.session.id);
+    }
 
     this.init();
   }
 
+  /**
+   * Determine the database session from the isolation mode
+   * In 'group' mode, embeds outside notebooks get their own session
+   */
+  private resolveSession(): SessionConfig | undefined {
+    const { isolation, notebook, privateDatabase } = this.options;
+    if (isolation === 'shared') return undefined;
+
+    const id = isolation === 'group' && notebook ? `notebook:${notebook}` : `embed:${++embedCounter}`;
+    return { id, privateDatabase };
+  }
+
   /**
    * Extract initial SQL code from element
    */
@@ -64,6 +174,21 @@ export class Embedded {
     return this.element.textContent?.trim() ?? '';
   }
 
+  /**
+   * Extract hidden setup SQL from <script type="text/x-sql-setup"> blocks directly preceding the element
+   */
+  private extractSetupScripts(): string[] {
+    const scripts: HTMLScriptElement[] = [];
+    let sibling = this.element.previousElementSibling;
+
+    while (isSetupScript(sibling)) {
+      scripts.unshift(sibling);
+      sibling = sibling.previousElementSibling;
+    }
+
+    return parseSetupScripts(scripts);
+  }
+
   /**
    * Initialize the embed
    */
@@ -71,6 +196,72 @@ export class Embedded {
     this.createUI();
     this.attachEventListeners();
     this.updateEditor();
+    this.renderParameters();
+    this.joinNotebook();
+    this.setupAutorun();
+
+    // Preloading is a page-wide setting, so it follows the global configuration
+    if (this.container) {
+      schedulePagePreload(getGlobalConfig(), [this.container]);
+    }
+  }
+
+  /**
+   * Register the embed as a cell of its notebook (if any)
+   */
+  private joinNotebook(): void {
+    if (!this.options.notebook) return;
+
+    this.notebook = getNotebook(this.options.notebook);
+    this.notebook.register({
+      embed: this,
+      order: this.options.cellOrder,
+      execute: () => this.execute(),
+      block: (message) => this.showBlocked(message),
+      render: (position, status) => this.renderCellStatus(position, status),
+    });
+  }
+
+  /**
+   * Run the query automatically on load or when the embed first becomes visible
+   * DuckDB is only loaded once the first autorun query executes.
+   * In notebooks, the notebook decides whether the cell still needs to run.
+   */
+  private setupAutorun(): void {
+    // Without IntersectionObserver support, 'visible' falls back to running on load
+    const runOnLoad = this.options.autorun === 'load'
+      || (this.options.autorun === 'visible' && typeof IntersectionObserver === 'undefined');
+
+    if (runOnLoad) {
+      // Deferred so that handlers registered right after construction see the run
+      void Promise.resolve().then(() => {
+        if (!this.destroyed) {
+          void this.autorun();
+        }
+      });
+      return;
+    }
+
+    if (this.options.autorun !== 'visible' || !this.container) return;
+
+    this.visibilityObserver = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        void this.autorun();
+      }
+    });
+    this.visibilityObserver.observe(this.container);
+  }
+
+  private autorun(): Promise<void> {
+    return this.notebook ? this.notebook.autorun(this) : this.execute();
+  }
+
+  /**
+   * Stop waiting for the embed to become visible
+   */
+  private disconnectVisibilityObserver(): void {
+    this.visibilityObserver?.disconnect();
+    this.visibilityObserver = null;
   }
 
   /**
@@ -90,7 +281,7 @@ export class Embedded {
       const themeConfig = getThemeConfig(theme, this.options.customThemes);
       applyThemeConfig(this.container, themeConfig);
     } catch (error) {
-      console.warn('Failed to apply custom theme:', error);
+      logger.warn('Failed to apply custom theme:', error);
       // Fall back to default theme
       const fallbackTheme = theme === 'dark' ? 'dark' : 'light';
       this.container.setAttribute('data-theme', fallbackTheme);
@@ -135,6 +326,36 @@ export class Embedded {
     this.resetButton.textContent = 'Reset';
     this.resetButton.setAttribute('aria-label', 'Reset to original code');
 
+    // Notebook cells show their status and a "Run all" button
+    if (this.options.notebook) {
+      this.cellStatusElement = document.createElement('span');
+      this.cellStatusElement.className = 'sql-workbench-cell-status';
+      editorHeader.appendChild(this.cellStatusElement);
+
+      this.runAllButton = document.createElement('button');
+      this.runAllButton.className = 'sql-workbench-button sql-workbench-button-secondary sql-workbench-button-run-all';
+      this.runAllButton.textContent = 'Run all';
+      this.runAllButton.setAttribute('aria-label', 'Run all notebook cells');
+      editorHeader.appendChild(this.runAllButton);
+    }
+
+    // Local files can be added with a file picker (or dropped onto the embed)
+    if (this.options.localFiles) {
+      this.addFileButton = document.createElement('button');
+      this.addFileButton.className = 'sql-workbench-button sql-workbench-button-secondary sql-workbench-button-add-file';
+      this.addFileButton.textContent = 'Add file';
+      this.addFileButton.setAttribute('aria-label', 'Add a local file');
+      editorHeader.appendChild(this.addFileButton);
+
+      this.fileInput = document.createElement('input');
+      this.fileInput.type = 'file';
+      this.fileInput.multiple = true;
+      this.fileInput.accept = LOCAL_FILE_TYPES;
+      this.fileInput.className = 'sql-workbench-file-input';
+      this.fileInput.hidden = true;
+      editorHeader.appendChild(this.fileInput);
+    }
+
     this.runButton = document.createElement('button');
     this.runButton.className = 'sql-workbench-button sql-workbench-button-primary sql-workbench-button-run';
     this.runButton.textContent = 'Run';
@@ -155,10 +376,25 @@ export class Embedded {
     // Set initial code
     this.editorElement.textContent = this.initialCode;
 
+    // Input controls for query parameters (rendered once the SQL is known)
+    this.parametersElement = document.createElement('div');
+    this.parametersElement.className = 'sql-workbench-parameters sql-workbench-parameters-hidden';
+    this.parametersElement.setAttribute('role', 'group');
+    this.parametersElement.setAttribute('aria-label', 'Query parameters');
+
     // Assemble editor section
     editorWrapper.appendChild(editorHeader);
+    editorWrapper.appendChild(this.parametersElement);
     editorWrapper.appendChild(this.editorElement);
 
+    // List of local files (shown once a file has been added)
+    if (this.options.localFiles) {
+      this.filesElement = document.createElement('div');
+      this.filesElement.className = 'sql-workbench-files sql-workbench-files-hidden';
+      this.filesElement.setAttribute('aria-label', 'Local files');
+      editorWrapper.appendChild(this.filesElement);
+    }
+
     // Create output area (initially hidden)
     this.outputElement = document.createElement('div');
     this.outputElement.className = 'sql-workbench-output sql-workbench-output-hidden';
@@ -199,8 +435,14 @@ export class Embedded {
    * Attach event listeners
    */
   private attachEventListeners(): void {
-    // Run button
-    this.runButton?.addEventListener('click', () => this.run());
+    // Run button (turns into a Stop button while a query is executing)
+    this.runButton?.addEventListener('click', () => {
+      if (this.state === 'loading') {
+        this.cancel();
+      } else {
+        this.run();
+      }
+    });
 
     // Reset button
     this.resetButton?.addEventListener('click', () => this.reset());
@@ -208,6 +450,66 @@ export class Embedded {
     // Open button
     this.openButton?.addEventListener('click', () => this.openInSQLWorkbench());
 
+    // Run all button (notebook cells)
+    this.runAllButton?.addEventListener('click', () => {
+      void this.notebook?.runAll();
+    });
+
+    // Result pagination (delegated, since result tables are re-rendered)
+    this.outputElement?.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest<HTMLButtonElement>('.sql-workbench-page-button');
+      if (button && !button.disabled) {
+        this.changePage(button);
+      }
+    });
+
+    // Result export menu (delegated)
+    this.outputElement?.addEventListener('click', (e) => {
+      const option = (e.target as HTMLElement).closest<HTMLButtonElement>('.sql-workbench-export-option');
+      if (option) {
+        this.handleExportOption(option);
+      }
+    });
+
+    // Local files: file picker and drag-and-drop onto the embed
+    this.addFileButton?.addEventListener('click', () => this.fileInput?.click());
+    this.fileInput?.addEventListener('change', () => {
+      const files = Array.from(this.fileInput?.files ?? []);
+      if (this.fileInput) this.fileInput.value = '';
+      void this.addFiles(files);
+    });
+    if (this.options.localFiles) {
+      this.attachDropTarget();
+      // Closing DuckDB (e.g. resetting the database) drops the registered files
+      this.stopCloseUpdates = duckDBManager.onClose(() => {
+        this.localFiles.clear();
+        this.renderFiles();
+      });
+    }
+
+    // Insert a snippet for a listed file (delegated)
+    this.filesElement?.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest<HTMLButtonElement>('.sql-workbench-file');
+      const name = button?.dataset.file;
+      if (name !== undefined) {
+        this.insertFileSnippet(name);
+      }
+    });
+
+    // Parameter controls (delegated, since controls are re-rendered when parameters change)
+    // Changing a value re-runs a query that has already been run
+    this.parametersElement?.addEventListener('change', (e) => {
+      const input = e.target as HTMLInputElement | HTMLSelectElement;
+      const name = input.dataset.parameter;
+      if (name === undefined) return;
+
+      const definition = this.options.parameters[name] ?? {};
+      this.parameterValues.set(name, parseInputValue(definition, input.value));
+      if (this.state !== 'idle' && this.state !== 'loading') {
+        void this.run();
+      }
+    });
+
     // Keyboard shortcuts
     this.editorElement?.addEventListener('keydown', (e) => {
       // Open in SQL Workbench: CMD/CTRL + Shift + Enter
@@ -244,10 +546,41 @@ export class Embedded {
     });
 
     // Syntax highlighting on input (debounced)
-    if (this.options.editable) {
-      const debouncedUpdate = debounce(() => this.updateEditor(), 150);
-      this.editorElement?.addEventListener('input', debouncedUpdate);
-    }
+    // Input events only fire while the editor is editable (see setEditable)
+    const debouncedUpdate = debounce(() => {
+      this.updateEditor();
+      this.renderParameters();
+      this.emit('change', { sql: this.getCode() });
+    }, 150);
+    this.editorElement?.addEventListener('input', debouncedUpdate);
+  }
+
+  /**
+   * Accept files dropped onto the embed
+   */
+  private attachDropTarget(): void {
+    const container = this.container;
+    if (!container) return;
+
+    const hasFiles = (e: DragEvent) => Array.from(e.dataTransfer?.types ?? []).includes('Files');
+
+    container.addEventListener('dragover', (e) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      container.classList.add('sql-workbench-drop-target');
+    });
+    container.addEventListener('dragleave', (e) => {
+      // Ignore moves between child elements
+      if (!container.contains(e.relatedTarget as Node | null)) {
+        container.classList.remove('sql-workbench-drop-target');
+      }
+    });
+    container.addEventListener('drop', (e) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      container.classList.remove('sql-workbench-drop-target');
+      void this.addFiles(Array.from(e.dataTransfer?.files ?? []));
+    });
   }
 
   /**
@@ -366,84 +699,440 @@ export class Embedded {
     }
   }
 
+  /**
+   * Insert a FROM clause reading a file at the cursor (at the end if the editor has no cursor)
+   */
+  private insertFileSnippet(name: string): void {
+    if (!this.editorElement || !this.options.editable) return;
+
+    const snippet = `FROM '${name.replace(/'/g, "''")}'`;
+    const selection = window.getSelection();
+    if (selection && selection.rangeCount > 0 && this.editorElement.contains(selection.anchorNode)) {
+      this.insertText(snippet);
+      return;
+    }
+
+    const code = this.getCode();
+    const separator = code && !code.endsWith('\n') ? '\n' : '';
+    void this.setCode(`${code}${separator}${snippet}`);
+    this.emit('change', { sql: this.getCode() });
+  }
+
   /**
    * Get current SQL code from editor
+   * Non-breaking spaces inserted by the syntax highlighter are returned as regular spaces
    */
-  private getCode(): string {
-    return this.editorElement?.textContent ?? '';
+  getCode(): string {
+    return (this.editorElement?.textContent ?? '').replace(/\u00a0/g, ' ');
   }
 
   /**
-   * Set SQL code in editor
+   * Set SQL code in editor, optionally running it
+   * Programmatic changes do not emit a change event
    */
-  private setCode(code: string): void {
-    if (!this.editorElement) return;
-    this.editorElement.textContent = code;
-    this.updateEditor();
+  setCode(code: string, options: { run?: boolean } = {}): Promise<void> {
+    if (this.editorElement) {
+      this.editorElement.textContent = code;
+      this.updateEditor();
+      this.renderParameters();
+    }
+    return options.run ? this.run() : Promise.resolve();
+  }
+
+  /**
+   * Get the values of the query's parameters
+   */
+  getParameters(): Record<string, ParameterValue> {
+    return Object.fromEntries(this.parameterNames.map((name) => [name, this.parameterValues.get(name) ?? null]));
+  }
+
+  /**
+   * Set parameter values (the controls are updated; the query is not run)
+   */
+  setParameters(values: Record<string, ParameterValue>): void {
+    for (const [name, value] of Object.entries(values)) {
+      this.parameterValues.set(name, value);
+    }
+    this.renderParameters(true);
   }
 
   /**
-   * Run SQL query
+   * Get the result of the most recent successful query (null after errors and resets)
+   * For scripts, this is the result of the last statement
    */
-  async run(): Promise<void> {
+  getLastResult(): QueryResult | null {
+    return this.lastResult;
+  }
+
+  /**
+   * Get the current UI state
+   */
+  getState(): EmbeddedState {
+    return this.state;
+  }
+
+  /**
+   * Enable or disable editing of the SQL code
+   */
+  setEditable(editable: boolean): void {
+    this.options.editable = editable;
+    if (this.editorElement) {
+      this.editorElement.contentEditable = String(editable);
+    }
+  }
+
+  /**
+   * Register local files with DuckDB so that they can be queried by name
+   * The files are listed below the editor, and a FROM clause for the first file is inserted at the cursor
+   */
+  async addFiles(files: File[]): Promise<void> {
+    if (files.length === 0) return;
+
+    configureDuckDB(this.options);
+
+    try {
+      for (const file of files) {
+        await duckDBManager.registerLocalFile(file.name, file);
+        this.localFiles.set(file.name, file.size);
+      }
+    } catch (error) {
+      this.showError(error instanceof Error ? error.message : String(error));
+      return;
+    } finally {
+      this.renderFiles();
+    }
+
+    this.insertFileSnippet(files[0]!.name);
+  }
+
+  /**
+   * Get the names of the local files added to this embed
+   */
+  getFiles(): string[] {
+    return [...this.localFiles.keys()];
+  }
+
+  /**
+   * Run SQL query, optionally with new parameter values
+   * Notebook cells first run the upstream cells that have not run yet or are stale
+   */
+  run(parameters?: Record<string, ParameterValue>): Promise<void> {
+    if (parameters) {
+      this.setParameters(parameters);
+    }
+    return this.notebook ? this.notebook.run(this) : this.execute();
+  }
+
+  /**
+   * Run all cells of the embed's notebook in order (same as run() outside notebooks)
+   */
+  runAll(): Promise<void> {
+    return this.notebook ? this.notebook.runAll() : this.execute();
+  }
+
+  /**
+   * Get the notebook cell status (null if the embed is not part of a notebook)
+   */
+  getCellStatus(): CellStatus | null {
+    return this.notebook?.getStatus(this) ?? null;
+  }
+
+  /**
+   * Execute this embed's SQL
+   * Scripts with multiple statements are executed one statement at a time
+   */
+  private async execute(): Promise<void> {
     if (this.state === 'loading') return;
 
+    // A pending autorun is no longer needed once the query has been run
+    this.disconnectVisibilityObserver();
+
     const sql = this.getCode();
     if (!sql.trim()) {
       this.showError('No SQL query to execute');
       return;
     }
 
+    const statements = splitStatements(sql);
+    if (statements.length === 0) {
+      this.showError('No SQL query to execute');
+      return;
+    }
+
+    // Controls may lag behind the editor while input is debounced
+    this.renderParameters();
+    const parameters = new Map(this.parameterValues);
+    this.resultParameters = parameters;
+
+    this.cancelReason = null;
+    this.lastResult = null;
     this.setState('loading');
     this.showLoading();
+    this.emit('run', { sql });
 
     const startTime = performance.now();
+    // Show initialization progress while DuckDB is loading
+    const stopProgressUpdates = duckDBManager.onProgress((progress) => this.showProgress(progress));
 
     try {
       // Configure DuckDB if not initialized
-      if (!duckDBManager.isInitialized()) {
-        duckDBManager.configure({
-          version: this.options.duckdbVersion,
-          cdn: this.options.duckdbCDN,
-        });
+      configureDuckDB(this.options);
+
+      // Resolve and register file paths (including those used by setup queries)
+      const files = new Map<string, string>();
+      const setupQueries = this.options.setupQueries;
+      for (const [index, setupQuery] of setupQueries.entries()) {
+        await this.registerFiles(setupQuery, `setup query ${index + 1}, `, files);
+      }
+      await this.registerFiles(sql, '', files);
+      this.resultFiles = files;
+      this.throwIfCancelled();
+
+      // Hidden setup queries run before the visible query (once per session)
+      if (setupQueries.length > 0) {
+        await duckDBManager.runSetupQueries(
+          setupQueries.map((setupQuery) => rewriteFilePaths(setupQuery, files)),
+          this.session
+        );
+        this.throwIfCancelled();
+      }
 
-        // Configure init queries from global config
-        if (this.options.initQueries && this.options.initQueries.length > 0) {
-          duckDBManager.configureInitQueries(this.options.initQueries);
+      if (statements.length === 1) {
+        // Single statement: errors propagate to the regular error display
+        const query = bindParameters(rewriteFilePaths(statements[0]!.sql, files), parameters);
+        const result = await this.sendQuery(query);
+        this.throwIfCancelled();
+        await this.ensureMinimumLoadingDuration(startTime);
+
+        this.lastResult = result;
+        this.setState('success');
+        this.showResult(result, statements[0]!.sql);
+        this.showResetButton();
+        this.emit('result', { sql, result });
+      } else {
+        const results = await this.executeStatements(
+          statements.map((statement) => statement.sql),
+          parameters,
+          files
+        );
+        await this.ensureMinimumLoadingDuration(startTime);
+
+        const failed = results.find((result) => result.status === 'error');
+        const lastResult = results[results.length - 1]?.result;
+        this.lastResult = failed ? null : lastResult ?? null;
+        this.setState(failed ? 'error' : 'success');
+        this.showStatementResults(results);
+        this.showResetButton();
+
+        if (failed) {
+          this.emit('error', { sql, message: failed.error ?? '', state: 'error', statementResults: results });
+        } else if (lastResult) {
+          this.emit('result', { sql, result: lastResult, statementResults: results });
         }
       }
+    } catch (error) {
+      // Ensure minimum loading duration even on error
+      await this.ensureMinimumLoadingDuration(startTime);
+
+      const message = error instanceof Error ? error.message : String(error);
+      if (this.cancelReason) {
+        this.showCancelled(this.cancelReason);
+      } else {
+        this.setState('error');
+        this.showError(message);
+      }
+      this.showResetButton();
+      this.emit('error', {
+        sql,
+        message,
+        state: this.cancelReason === 'timeout' ? 'timeout' : this.cancelReason ? 'cancelled' : 'error',
+      });
+    } finally {
+      this.clearQueryTimeout();
+      stopProgressUpdates?.();
+    }
+  }
+
+  /**
+   * Cancel the currently executing query
+   */
+  async cancel(): Promise<void> {
+    if (this.state !== 'loading' || this.cancelReason) return;
+
+    this.cancelReason = 'user';
+    await this.pendingQuery?.cancel();
+  }
 
-      // Resolve and register file paths
-      const pathMap = resolvePathsInSQL(sql, { baseUrl: this.options.baseUrl });
+  /**
+   * Send a query to DuckDB, keeping it as the pending query so that it can be cancelled
+   * A run cancelled before the query is sent stops at the next throwIfCancelled()
+   */
+  private async sendQuery(query: BoundQuery): Promise<QueryResult> {
+    // Loading DuckDB does not count against the query timeout
+    await duckDBManager.preload();
+    this.throwIfCancelled();
+    this.queryTimer ??= this.startQueryTimeout();
+
+    const pending = duckDBManager.query(query.sql, {
+      maxRows: this.options.maxRows,
+      session: this.session,
+      params: query.params.length > 0 ? query.params : undefined,
+    });
+    this.pendingQuery = pending;
 
-      for (const [originalPath, resolvedUrl] of pathMap.entries()) {
-        // Extract filename for registration
-        const filename = originalPath.split('/').pop() ?? originalPath;
-        await duckDBManager.registerFile(filename, resolvedUrl);
+    try {
+      return await pending;
+    } finally {
+      if (this.pendingQuery === pending) {
+        this.pendingQuery = null;
       }
+    }
+  }
+
+  /**
+   * Start the automatic cancellation timer if a query timeout is configured
+   */
+  private startQueryTimeout(): ReturnType<typeof setTimeout> | null {
+    if (!this.options.queryTimeout || this.options.queryTimeout <= 0) {
+      return null;
+    }
+
+    return setTimeout(() => {
+      if (this.state !== 'loading' || this.cancelReason) return;
+      this.cancelReason = 'timeout';
+      void this.pendingQuery?.cancel();
+    }, this.options.queryTimeout);
+  }
+
+  /**
+   * Stop the query timeout timer of the current run
+   */
+  private clearQueryTimeout(): void {
+    if (this.queryTimer !== null) {
+      clearTimeout(this.queryTimer);
+      this.queryTimer = null;
+    }
+  }
 
-      // Execute query
-      const result = await duckDBManager.query(sql);
+  /**
+   * Resolve the files referenced by SQL and register them with DuckDB under their
+   * virtual paths, which are added to `files` (by path in the SQL)
+   * Globs are expanded with the manifest and local files are used as they are.
+   * Errors name the line of the reference, after the given location prefix
+   * (e.g. "setup query 1, line 3").
+   */
+  private async registerFiles(sql: string, location: string, files: Map<string, string>): Promise<void> {
+    const options = { baseUrl: this.options.baseUrl };
+    const localFiles = new Set(duckDBManager.getLocalFiles());
+
+    for (const reference of extractFileReferences(sql)) {
+      if (files.has(reference.path) || localFiles.has(reference.path)) continue;
+      // s3://, hf://, gs:// and other schemes are read by DuckDB as written
+      if (hasNonHttpScheme(reference.path)) continue;
+      // Globs over local files are expanded by DuckDB among the registered files
+      if (isGlob(reference.path) && this.matchesLocalFile(reference.path, localFiles)) continue;
 
-      // Ensure minimum loading duration for UX
-      const elapsed = performance.now() - startTime;
-      if (elapsed < 200) {
-        await new Promise(resolve => setTimeout(resolve, 200 - elapsed));
+      try {
+        if (isGlob(reference.path)) {
+          for (const url of await this.expandGlob(reference.path)) {
+            await duckDBManager.registerFile(getVirtualPath(url), url);
+          }
+          files.set(reference.path, getVirtualGlob(reference.path, options));
+        } else {
+          const resolvedUrl = resolvePath(reference.path, options);
+          const virtualPath = getVirtualPath(resolvedUrl);
+          await duckDBManager.registerFile(virtualPath, resolvedUrl);
+          files.set(reference.path, virtualPath);
+        }
+      } catch (error) {
+        const line = sql.slice(0, reference.start).split('\n').length;
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`${message} (${location}line ${line})`);
       }
+    }
+  }
 
-      this.setState('success');
-      this.showResult(result);
-      this.showResetButton();
-    } catch (error) {
-      // Ensure minimum loading duration even on error
-      const elapsed = performance.now() - startTime;
-      if (elapsed < 200) {
-        await new Promise(resolve => setTimeout(resolve, 200 - elapsed));
+  /**
+   * Check whether a glob matches the name of a local file
+   */
+  private matchesLocalFile(glob: string, localFiles: Set<string>): boolean {
+    const pattern = globToRegExp(glob);
+    return [...localFiles].some((name) => pattern.test(name));
+  }
+
+  /**
+   * Expand a glob into the URLs of the matching files in the manifest
+   */
+  private async expandGlob(glob: string): Promise<string[]> {
+    const { manifest, baseUrl } = this.options;
+    if (!manifest) {
+      throw new Error(`Cannot expand ${glob}: set a manifest listing the files at ${baseUrl}`);
+    }
+
+    const paths = Array.isArray(manifest) ? manifest : await loadManifest(resolvePath(manifest, { baseUrl }));
+    const urls = expandGlob(glob, paths, { baseUrl });
+    if (urls.length === 0) {
+      throw new Error(`No files in the manifest match ${glob}`);
+    }
+    return urls;
+  }
+
+  /**
+   * Abort the current run if cancellation was requested
+   */
+  private throwIfCancelled(): void {
+    if (this.cancelReason) {
+      throw new Error('Query was cancelled');
+    }
+  }
+
+  /**
+   * Execute statements sequentially, stopping at the first failure
+   */
+  private async executeStatements(
+    statements: string[],
+    parameters: Map<string, ParameterValue>,
+    files: Map<string, string>
+  ): Promise<StatementResult[]> {
+    const results: StatementResult[] = [];
+    let failed = false;
+
+    for (const sql of statements) {
+      if (failed) {
+        results.push({ sql, status: 'skipped', executionTime: 0 });
+        continue;
       }
 
-      this.setState('error');
-      this.showError(error instanceof Error ? error.message : String(error));
-      this.showResetButton();
+      this.throwIfCancelled();
+
+      const startTime = performance.now();
+      try {
+        const query = bindParameters(rewriteFilePaths(sql, files), parameters);
+        const result = await this.sendQuery(query);
+        results.push({ sql, status: 'success', result, executionTime: result.executionTime });
+      } catch (error) {
+        // Cancellation aborts the whole script instead of failing a single statement
+        this.throwIfCancelled();
+        failed = true;
+        results.push({
+          sql,
+          status: 'error',
+          error: error instanceof Error ? error.message : String(error),
+          executionTime: performance.now() - startTime,
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Ensure minimum loading duration for UX
+   */
+  private async ensureMinimumLoadingDuration(startTime: number): Promise<void> {
+    const elapsed = performance.now() - startTime;
+    if (elapsed < 200) {
+      await new Promise(resolve => setTimeout(resolve, 200 - elapsed));
     }
   }
 
@@ -453,6 +1142,8 @@ export class Embedded {
   reset(): void {
     this.setCode(this.initialCode);
     this.setState('idle');
+    this.clearResults();
+    this.lastResult = null;
     if (this.outputElement) {
       this.outputElement.className = 'sql-workbench-output sql-workbench-output-hidden';
       this.outputElement.textContent = '';
@@ -461,6 +1152,32 @@ export class Embedded {
     if (this.resetButton) {
       this.resetButton.classList.add('sql-workbench-button-hidden');
     }
+    this.emit('reset', { sql: this.initialCode });
+  }
+
+  /**
+   * Subscribe to an embed event
+   * Returns a function that removes the handler
+   */
+  on<K extends keyof EmbeddedEventMap>(event: K, handler: EventHandler<EmbeddedEventMap[K]>): () => void {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Unsubscribe a handler from an embed event
+   */
+  off<K extends keyof EmbeddedEventMap>(event: K, handler: EventHandler<EmbeddedEventMap[K]>): void {
+    this.events.off(event, handler);
+  }
+
+  /**
+   * Notify handlers and dispatch the matching DOM event from the container
+   */
+  private emit<K extends keyof EmbeddedEventMap>(event: K, detail: EmbeddedEventMap[K]): void {
+    this.events.emit(event, detail);
+    this.container?.dispatchEvent(
+      new CustomEvent(`sql-workbench:${event}`, { detail, bubbles: true })
+    );
   }
 
   /**
@@ -469,10 +1186,13 @@ export class Embedded {
   private setState(state: EmbeddedState): void {
     this.state = state;
 
-    // Update button states
+    // Update button states: Run turns into Stop while a query is executing
     if (this.runButton && this.resetButton) {
-      this.runButton.disabled = state === 'loading';
-      this.resetButton.disabled = state === 'loading';
+      const loading = state === 'loading';
+      this.runButton.textContent = loading ? 'Stop' : 'Run';
+      this.runButton.setAttribute('aria-label', loading ? 'Cancel query execution' : 'Execute SQL query');
+      this.runButton.classList.toggle('sql-workbench-button-stop', loading);
+      this.resetButton.disabled = loading;
     }
   }
 
@@ -491,6 +1211,13 @@ export class Embedded {
   private showLoading(): void {
     if (!this.outputElement) return;
 
+    // DuckDB is still loading (e.g. preloading started before this run)
+    const progress = duckDBManager.getProgress();
+    if (progress && progress.stage !== 'ready') {
+      this.showProgress(progress);
+      return;
+    }
+
     this.outputElement.className = 'sql-workbench-output sql-workbench-loading';
     this.outputElement.innerHTML = `
       <div class="sql-workbench-loading">
@@ -515,54 +1242,430 @@ export class Embedded {
     `;
   }
 
+  /**
+   * Render the list of local files
+   */
+  private renderFiles(): void {
+    if (!this.filesElement) return;
+
+    const items = [...this.localFiles].map(([name, size]) => `
+      <li>
+        <button class="sql-workbench-file" data-file="${this.escapeAttribute(name)}" title="Insert FROM clause">${this.escapeHtml(name)}</button>
+        <span class="sql-workbench-file-size">${formatBytes(size)}</span>
+      </li>
+    `);
+
+    this.filesElement.classList.toggle('sql-workbench-files-hidden', items.length === 0);
+    this.filesElement.innerHTML = `
+      <span class="sql-workbench-files-title">Files</span>
+      <ul class="sql-workbench-file-list">${items.join('')}</ul>
+    `;
+  }
+
+  /**
+   * Render the input controls of the parameters used in the SQL
+   * Controls are only re-rendered when the parameters change (or when forced),
+   * so that editing the SQL does not reset a focused control
+   */
+  private renderParameters(force = false): void {
+    if (!this.parametersElement) return;
+
+    const names = findParameters(this.getCode());
+    if (!force && names.join(',') === this.parameterNames.join(',')) return;
+    this.parameterNames = names;
+
+    for (const name of names) {
+      if (!this.parameterValues.has(name)) {
+        this.parameterValues.set(name, getInitialValue(this.options.parameters[name] ?? {}));
+      }
+    }
+
+    this.parametersElement.classList.toggle('sql-workbench-parameters-hidden', names.length === 0);
+    this.parametersElement.innerHTML = names.map((name) => this.renderParameterControl(name)).join('');
+  }
+
+  private renderParameterControl(name: string): string {
+    const definition = this.options.parameters[name] ?? {};
+    const type = getParameterType(definition);
+    const value = this.parameterValues.get(name);
+    const current = value === null || value === undefined ? '' : String(value);
+    const attributes = `class="sql-workbench-parameter-input" data-parameter="${this.escapeAttribute(name)}"`;
+
+    let control: string;
+    if (type === 'select') {
+      const options = definition.options ?? [];
+      control = `<select ${attributes}>${options.map((option) => {
+        const selected = String(option) === current ? ' selected' : '';
+        return `<option value="${this.escapeAttribute(String(option))}"${selected}>${this.escapeHtml(String(option))}</option>`;
+      }).join('')}</select>`;
+    } else {
+      const step = type === 'number' ? ' step="any"' : '';
+      control = `<input ${attributes} type="${type}" value="${this.escapeAttribute(current)}"${step}>`;
+    }
+
+    return `
+      <label class="sql-workbench-parameter">
+        <span class="sql-workbench-parameter-label">${this.escapeHtml(definition.label ?? name)}</span>
+        ${control}
+      </label>
+    `;
+  }
+
+  /**
+   * Show DuckDB initialization progress as a list of stages
+   */
+  private showProgress(progress: InitProgress): void {
+    if (!this.outputElement || this.state !== 'loading') return;
+
+    if (progress.stage === 'ready') {
+      this.showLoading();
+      return;
+    }
+
+    const currentIndex = INIT_STAGE_LABELS.findIndex(([stage]) => stage === progress.stage);
+    const steps = INIT_STAGE_LABELS
+      .filter(([stage]) => stage !== 'init-queries' || this.options.initQueries.length > 0 || progress.stage === stage)
+      .map(([stage, label]) => {
+        const index = INIT_STAGE_LABELS.findIndex(([s]) => s === stage);
+        const status = index < currentIndex ? 'done' : index === currentIndex ? 'active' : 'pending';
+        const detail = index === currentIndex ? this.formatProgressDetail(progress) : '';
+        return `<li class="sql-workbench-progress-step" data-status="${status}">${label}${detail}</li>`;
+      })
+      .join('');
+
+    this.outputElement.className = 'sql-workbench-output sql-workbench-loading';
+    this.outputElement.innerHTML = `
+      <div class="sql-workbench-loading">
+        <div class="sql-workbench-spinner"></div>
+        <ol class="sql-workbench-progress" aria-label="Loading DuckDB">${steps}</ol>
+      </div>
+    `;
+  }
+
+  private formatProgressDetail(progress: InitProgress): string {
+    if (progress.loaded === undefined) return '';
+
+    const text = progress.stage === 'init-queries'
+      ? `${progress.loaded + 1} of ${progress.total}`
+      : progress.total
+        ? `${formatBytes(progress.loaded)} of ${formatBytes(progress.total)}`
+        : formatBytes(progress.loaded);
+
+    return ` <span class="sql-workbench-progress-detail">(${text})</span>`;
+  }
+
+  /**
+   * Show that a notebook cell did not run because an upstream cell failed
+   */
+  private showBlocked(message: string): void {
+    this.lastResult = null;
+    this.setState('error');
+    this.showError(message);
+    this.showResetButton();
+    this.emit('error', { sql: this.getCode(), message, state: 'error' });
+  }
+
+  /**
+   * Display the notebook cell position and status
+   */
+  private renderCellStatus(position: number, status: CellStatus): void {
+    if (!this.cellStatusElement) return;
+
+    const labels: Record<CellStatus, string> = { 'not-run': 'Not run', ran: 'Ran', stale: 'Stale' };
+    this.cellStatusElement.textContent = `[${position}] ${labels[status]}`;
+    this.cellStatusElement.setAttribute('data-status', status);
+    this.cellStatusElement.setAttribute('title', `Cell ${position} of notebook "${this.options.notebook}": ${labels[status].toLowerCase()}`);
+  }
+
+  /**
+   * Show cancellation or timeout message
+   */
+  private showCancelled(reason: 'user' | 'timeout'): void {
+    if (!this.outputElement) return;
+
+    this.outputElement.className = 'sql-workbench-output';
+
+    if (reason === 'timeout') {
+      this.setState('timeout');
+      this.outputElement.innerHTML = `
+        <div class="sql-workbench-error sql-workbench-error-timeout">
+          <div class="sql-workbench-error-title">Timed out</div>
+          <div>Query exceeded the time limit of ${this.options.queryTimeout / 1000}s and was cancelled.</div>
+        </div>
+      `;
+      return;
+    }
+
+    this.setState('cancelled');
+    this.outputElement.innerHTML = '<div class="sql-workbench-output-empty">Query cancelled.</div>';
+  }
+
   /**
    * Show query result
    */
-  private showResult(result: QueryResult): void {
+  private showResult(result: QueryResult, sql: string): void {
     if (!this.outputElement) return;
 
     this.outputElement.className = 'sql-workbench-output';
+    this.clearResults();
+    this.outputElement.innerHTML = this.renderResult(this.trackResult(result, sql));
+  }
+
+  /**
+   * Show one collapsible result section per executed statement
+   */
+  private showStatementResults(results: StatementResult[]): void {
+    if (!this.outputElement) return;
+
+    // Expand the failed statement, or the last one if everything succeeded
+    const failedIndex = results.findIndex((result) => result.status === 'error');
+    const openIndex = failedIndex > -1 ? failedIndex : results.length - 1;
+
+    this.clearResults();
+    let html = '<div class="sql-workbench-statements">';
+
+    results.forEach((statement, index) => {
+      let status: string;
+      let body: string;
+
+      if (statement.status === 'success' && statement.result) {
+        const { rowCount, truncated } = statement.result;
+        status = `${rowCount}${truncated ? '+' : ''} row${rowCount === 1 && !truncated ? '' : 's'} · ${statement.executionTime.toFixed(2)}ms`;
+        body = this.renderResult(this.trackResult(statement.result, statement.sql));
+      } else if (statement.status === 'error') {
+        status = `Error · ${statement.executionTime.toFixed(2)}ms`;
+        body = `
+          <div class="sql-workbench-error">
+            <div class="sql-workbench-error-title">Error</div>
+            <div>${this.escapeHtml(statement.error ?? '')}</div>
+          </div>
+        `;
+      } else {
+        status = 'Skipped';
+        body = '<div class="sql-workbench-output-empty">Not executed because a previous statement failed.</div>';
+      }
+
+      html += `
+        <details class="sql-workbench-statement sql-workbench-statement-${statement.status}"${index === openIndex ? ' open' : ''}>
+          <summary class="sql-workbench-statement-summary">
+            <span class="sql-workbench-statement-index">${index + 1}</span>
+            <code class="sql-workbench-statement-sql">${this.escapeHtml(this.summarizeStatement(statement.sql))}</code>
+            <span class="sql-workbench-statement-status">${this.escapeHtml(status)}</span>
+          </summary>
+          <div class="sql-workbench-statement-body">${body}</div>
+        </details>
+      `;
+    });
+
+    html += '</div>';
+    this.outputElement.innerHTML = html;
+  }
+
+  /**
+   * Shorten a statement to a single line for its section header
+   */
+  private summarizeStatement(sql: string): string {
+    const singleLine = sql.replace(/\s+/g, ' ').trim();
+    return singleLine.length > 80 ? `${singleLine.slice(0, 77)}...` : singleLine;
+  }
+
+  /**
+   * Keep a rendered result for pagination and export, returning its index
+   */
+  private trackResult(result: QueryResult, sql: string): number {
+    this.results.push(result);
+    this.resultPages.push(0);
+    this.resultQueries.push(sql);
+    return this.results.length - 1;
+  }
+
+  /**
+   * Forget rendered results
+   */
+  private clearResults(): void {
+    this.results = [];
+    this.resultPages = [];
+    this.resultQueries = [];
+  }
+
+  /**
+   * Move a result table to the previous or next page
+   */
+  private changePage(button: HTMLButtonElement): void {
+    const resultElement = button.closest<HTMLElement>('.sql-workbench-result');
+    const index = Number(resultElement?.dataset.resultIndex);
+    const page = this.resultPages[index];
+    if (!resultElement || page === undefined) return;
+
+    this.resultPages[index] = page + (button.dataset.page === 'next' ? 1 : -1);
+    resultElement.outerHTML = this.renderResult(index);
+  }
+
+  /**
+   * Format a number with thousands separators
+   */
+  private formatCount(value: number): string {
+    return value.toLocaleString('en-US');
+  }
+
+  /**
+   * Render a tracked query result as HTML (current page of the table and metadata)
+   */
+  private renderResult(index: number): string {
+    const result = this.results[index];
+    if (!result) return '';
 
     if (result.rowCount === 0) {
-      this.outputElement.innerHTML = `
+      return `
         <div>Query executed successfully. No rows returned.</div>
         <div class="sql-workbench-metadata">
           <span>Execution time: ${result.executionTime.toFixed(2)}ms</span>
         </div>
       `;
-      return;
     }
 
+    const pageSize = Math.max(1, this.options.pageSize);
+    const loadedRows = result.rows.length;
+    const pageCount = Math.max(1, Math.ceil(loadedRows / pageSize));
+    const page = Math.min(Math.max(this.resultPages[index] ?? 0, 0), pageCount - 1);
+    this.resultPages[index] = page;
+
+    const firstRow = page * pageSize;
+    const pageRows = result.rows.slice(firstRow, firstRow + pageSize);
+
     // Build table
-    let tableHTML = '<div class="sql-workbench-result-table"><table><thead><tr>';
+    let tableHTML = `<div class="sql-workbench-result" data-result-index="${index}">`;
+    tableHTML += '<div class="sql-workbench-result-table"><table><thead><tr>';
 
-    for (const column of result.columns) {
-      tableHTML += `<th>${this.escapeHtml(column)}</th>`;
-    }
+    result.columns.forEach((column, columnIndex) => {
+      const columnType = result.columnTypes?.[columnIndex];
+      const title = columnType ? ` title="${this.escapeHtml(columnType.type)}"` : '';
+      tableHTML += `<th${title}>${this.escapeHtml(column)}</th>`;
+    });
 
     tableHTML += '</tr></thead><tbody>';
 
-    for (const row of result.rows) {
+    for (const row of pageRows) {
       tableHTML += '<tr>';
-      for (const cell of row) {
-        const cellValue = cell === null || cell === undefined ? 'NULL' : String(cell);
-        tableHTML += `<td>${this.escapeHtml(cellValue)}</td>`;
-      }
+      row.forEach((cell, columnIndex) => {
+        const cellValue = formatValue(cell, result.columnTypes?.[columnIndex]?.kind);
+        const nested = cell !== null && typeof cell === 'object' && !(cell instanceof Date) && !(cell instanceof Uint8Array);
+        tableHTML += nested
+          ? `<td class="sql-workbench-cell-nested">${this.escapeHtml(cellValue)}</td>`
+          : `<td>${this.escapeHtml(cellValue)}</td>`;
+      });
       tableHTML += '</tr>';
     }
 
     tableHTML += '</tbody></table></div>';
 
     // Add metadata
+    // Truncated results only know that there are more rows than were loaded
+    const paginated = pageCount > 1 || result.truncated;
+    const total = `${this.formatCount(result.rowCount)}${result.truncated ? '+' : ''}`;
+    tableHTML += '<div class="sql-workbench-metadata">';
+
+    if (paginated) {
+      tableHTML += `<span class="sql-workbench-page-info">Showing ${this.formatCount(firstRow + 1)}–${this.formatCount(firstRow + pageRows.length)} of ${total} rows</span>`;
+      if (result.truncated) {
+        tableHTML += `<span>First ${this.formatCount(loadedRows)} rows loaded</span>`;
+      }
+    } else {
+      tableHTML += `<span>${result.rowCount} row${result.rowCount === 1 ? '' : 's'}</span>`;
+    }
+
     tableHTML += `
-      <div class="sql-workbench-metadata">
-        <span>${result.rowCount} row${result.rowCount === 1 ? '' : 's'}</span>
-        <span>${result.columns.length} column${result.columns.length === 1 ? '' : 's'}</span>
-        <span>Execution time: ${result.executionTime.toFixed(2)}ms</span>
-      </div>
+      <span>${result.columns.length} column${result.columns.length === 1 ? '' : 's'}</span>
+      <span>Execution time: ${result.executionTime.toFixed(2)}ms</span>
+    `;
+
+    if (pageCount > 1) {
+      tableHTML += `
+        <span class="sql-workbench-pager">
+          <button class="sql-workbench-button sql-workbench-button-secondary sql-workbench-page-button" data-page="prev" aria-label="Previous page"${page === 0 ? ' disabled' : ''}>‹</button>
+          <span>Page ${this.formatCount(page + 1)} of ${this.formatCount(pageCount)}</span>
+          <button class="sql-workbench-button sql-workbench-button-secondary sql-workbench-page-button" data-page="next" aria-label="Next page"${page === pageCount - 1 ? ' disabled' : ''}>›</button>
+        </span>
+      `;
+    }
+
+    tableHTML += this.renderExportMenu();
+    tableHTML += '</div></div>';
+
+    return tableHTML;
+  }
+
+  /**
+   * Render the export menu for a result's metadata bar
+   */
+  private renderExportMenu(): string {
+    const options: [ExportFormat, string][] = [
+      ['csv', 'CSV'],
+      ['tsv', 'TSV'],
+      ['json', 'JSON'],
+      ['markdown', 'Markdown'],
+      ['parquet', 'Parquet'],
+      ['clipboard', 'Copy to clipboard'],
+    ];
+
+    return `
+      <details class="sql-workbench-export">
+        <summary class="sql-workbench-button sql-workbench-button-secondary" aria-label="Export results">Export</summary>
+        <div class="sql-workbench-export-menu" role="menu">
+          ${options.map(([format, label]) => `<button class="sql-workbench-export-option" role="menuitem" data-format="${format}">${label}</button>`).join('')}
+        </div>
+      </details>
     `;
+  }
+
+  /**
+   * Export the result an export menu option belongs to
+   */
+  private async handleExportOption(option: HTMLButtonElement): Promise<void> {
+    const resultElement = option.closest<HTMLElement>('.sql-workbench-result');
+    const menu = option.closest('details');
+    const index = Number(resultElement?.dataset.resultIndex);
+    const format = option.dataset.format as ExportFormat;
+
+    menu?.removeAttribute('open');
+
+    try {
+      await this.exportResult(format, index);
+    } catch (error) {
+      logger.error('Failed to export results:', error);
+    }
+  }
+
+  /**
+   * Export a query result (defaults to the most recent one)
+   * Text formats and the clipboard contain the loaded rows (up to maxRows);
+   * Parquet files are written by DuckDB and contain the full result.
+   */
+  async exportResult(format: ExportFormat, resultIndex = this.results.length - 1): Promise<void> {
+    const result = this.results[resultIndex];
+    const sql = this.resultQueries[resultIndex];
+    if (!result || sql === undefined) {
+      throw new Error('No query result to export');
+    }
+
+    if (format === 'clipboard') {
+      await copyToClipboard(serializeResult(result, 'tsv'));
+      return;
+    }
+
+    if (format === 'parquet') {
+      const query = bindParameters(rewriteFilePaths(sql, this.resultFiles), this.resultParameters);
+      const buffer = await duckDBManager.exportParquet(query.sql, this.session, query.params);
+      downloadBlob(buffer, 'query-result.parquet', 'application/vnd.apache.parquet');
+      return;
+    }
 
-    this.outputElement.innerHTML = tableHTML;
+    const textFormat = TEXT_EXPORT_FORMATS[format];
+    if (!textFormat) {
+      throw new Error(`Unsupported export format: ${format}`);
+    }
+
+    downloadBlob(serializeResult(result, format), `query-result.${textFormat.extension}`, textFormat.mimeType);
   }
 
   /**
@@ -574,6 +1677,13 @@ export class Embedded {
     return div.innerHTML;
   }
 
+  /**
+   * Escape text for use in a double-quoted attribute value
+   */
+  private escapeAttribute(text: string): string {
+    return this.escapeHtml(text).replace(/"/g, '&quot;');
+  }
+
   /**
    * Encode query for URL using URL-safe Base64 without padding
    */
@@ -614,6 +1724,24 @@ export class Embedded {
   destroy(): void {
     if (this.destroyed) return;
 
+    this.disconnectVisibilityObserver();
+    this.stopCloseUpdates?.();
+
+    // A running query would keep its connection busy for other embeds
+    if (this.state === 'loading') {
+      this.cancelReason ??= 'user';
+      void this.pendingQuery?.cancel();
+    }
+    this.clearQueryTimeout();
+
+    if (this.session) {
+      duckDBManager.releaseSession(this.session.id);
+    }
+
+    // Notify before the container is removed from the document
+    this.emit('destroy', {});
+    this.events.clear();
+
     // Remove event listeners (handled by removing DOM elements)
     this.container?.remove();
 
@@ -624,6 +1752,13 @@ export class Embedded {
     this.runButton = null;
     this.resetButton = null;
     this.openButton = null;
+    this.runAllButton = null;
+    this.cellStatusElement = null;
+    this.parametersElement = null;
+    this.addFileButton = null;
+    this.fileInput = null;
+    this.filesElement = null;
+    this.notebook = null;
 
     this.destroyed = true;
   }
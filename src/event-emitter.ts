@@ -0,0 +1,54 @@
+/**
+ * Minimal typed event emitter
+ */
+
+import { logger } from './logger';
+
+export type EventHandler<T> = (detail: T) => void;
+
+export class EventEmitter<Events extends object> {
+  private handlers: { [K in keyof Events]?: Set<EventHandler<Events[K]>> } = {};
+
+  /**
+   * Subscribe to an event
+   * Returns a function that removes the handler
+   */
+  on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+    const handlers = this.handlers[event] ?? new Set();
+    this.handlers[event] = handlers;
+    handlers.add(handler);
+
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Unsubscribe a handler from an event
+   */
+  off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void {
+    this.handlers[event]?.delete(handler);
+  }
+
+  /**
+   * Call all handlers of an event
+   * Errors thrown by handlers are logged and do not affect other handlers
+   */
+  emit<K extends keyof Events>(event: K, detail: Events[K]): void {
+    const handlers = this.handlers[event];
+    if (!handlers) return;
+
+    for (const handler of Array.from(handlers)) {
+      try {
+        handler(detail);
+      } catch (error) {
+        logger.error(`Error in ${String(event)} event handler:`, error);
+      }
+    }
+  }
+
+  /**
+   * Remove all handlers
+   */
+  clear(): void {
+    this.handlers = {};
+  }
+}
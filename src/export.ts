@@ -0,0 +1,121 @@
+/**
+ * Query result export
+ * Serializes loaded result rows to text formats and triggers downloads
+ */
+
+import { QueryResult, ExportFormat } from './types';
+import { formatValue } from './value-converter';
+
+/**
+ * Text formats and their file extensions and MIME types
+ */
+export const TEXT_EXPORT_FORMATS: Record<Exclude<ExportFormat, 'parquet' | 'clipboard'>, { extension: string; mimeType: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  tsv: { extension: 'tsv', mimeType: 'text/tab-separated-values' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+};
+
+/**
+ * Format a cell value for delimited and Markdown output (NULL becomes empty)
+ */
+function formatCell(value: unknown, result: QueryResult, columnIndex: number): string {
+  if (value === null || value === undefined) return '';
+  return formatValue(value, result.columnTypes?.[columnIndex]?.kind);
+}
+
+/**
+ * Serialize a result as delimiter-separated values (RFC 4180 quoting)
+ */
+export function toDelimited(result: QueryResult, delimiter: string): string {
+  const escapeField = (field: string): string =>
+    field.includes(delimiter) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+
+  const lines = [result.columns.map(escapeField).join(delimiter)];
+  for (const row of result.rows) {
+    lines.push(row.map((cell, index) => escapeField(formatCell(cell, result, index))).join(delimiter));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serialize a result as a JSON array of row objects
+ * Large integers are written as strings to avoid precision loss
+ */
+export function toJSON(result: QueryResult): string {
+  const objects = result.rows.map((row) => {
+    const object: Record<string, unknown> = {};
+    result.columns.forEach((column, index) => {
+      object[column] = row[index] ?? null;
+    });
+    return object;
+  });
+
+  return JSON.stringify(objects, (_key, value) => {
+    if (typeof value === 'bigint') return value.toString();
+    if (value instanceof Uint8Array) return formatValue(value);
+    return value;
+  }, 2);
+}
+
+/**
+ * Serialize a result as a Markdown table
+ */
+export function toMarkdown(result: QueryResult): string {
+  const escapeCell = (cell: string): string => cell.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+  const lines = [
+    `| ${result.columns.map(escapeCell).join(' | ')} |`,
+    `| ${result.columns.map(() => '---').join(' | ')} |`,
+  ];
+  for (const row of result.rows) {
+    lines.push(`| ${row.map((cell, index) => escapeCell(formatCell(cell, result, index))).join(' | ')} |`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serialize a result in a text export format
+ */
+export function serializeResult(result: QueryResult, format: keyof typeof TEXT_EXPORT_FORMATS): string {
+  switch (format) {
+    case 'csv':
+      return toDelimited(result, ',');
+    case 'tsv':
+      return toDelimited(result, '\t');
+    case 'json':
+      return toJSON(result);
+    case 'markdown':
+      return toMarkdown(result);
+  }
+}
+
+/**
+ * Trigger a browser download of the given data
+ */
+export function downloadBlob(data: BlobPart, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.style.display = 'none';
+
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Revoke after the click has been handled
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Copy text to the clipboard
+ */
+export async function copyToClipboard(text: string): Promise<void> {
+  if (!navigator.clipboard?.writeText) {
+    throw new Error('Clipboard access is not available');
+  }
+  await navigator.clipboard.writeText(text);
+}
@@ -4,15 +4,29 @@
  */
 
 import { Embedded } from './embedded';
-import { SQLWorkbenchConfig } from './types';
+import { SQLWorkbenchConfig, TableData, RegisterTableOptions } from './types';
 import { injectStyles } from './styles';
 import { duckDBManager } from './duckdb-manager';
 import { getGlobalConfig, setGlobalConfig } from './config-store';
+import { defineSQLWorkbenchElement } from './web-component';
+import { debounce } from './syntax-highlight';
+import { findNotebook } from './notebook';
+import { logger } from './logger';
+import { schedulePagePreload, cancelPagePreload, configureDuckDB } from './preload';
 
 // Track all embedded instances
 const embedInstances = new WeakMap<HTMLElement, Embedded>();
 const allEmbeds: Embedded[] = [];
 
+// DOM observer (created by the first init() call)
+let mutationObserver: MutationObserver | null = null;
+
+// Added nodes waiting for the next batched scan
+const pendingRoots = new Set<HTMLElement>();
+
+/** Delay for batching scans of added nodes, in milliseconds */
+const SCAN_DEBOUNCE_MS = 50;
+
 /**
  * Set global configuration
  */
@@ -33,7 +47,7 @@ function getConfig(): Required<SQLWorkbenchConfig> {
  */
 function init(): void {
   if (typeof document === 'undefined') {
-    console.warn('SQLWorkbench: document is not available, skipping initialization');
+    logger.warn('SQLWorkbench: document is not available, skipping initialization');
     return;
   }
 
@@ -41,8 +55,25 @@ function init(): void {
   injectStyles();
 
   // Find all matching elements
+  upgradeElements(document);
+
+  // Set up MutationObserver for automatic cleanup and upgrades
+  setupMutationObserver();
+
+  // Start loading DuckDB ahead of the first query if configured (also without embeds)
+  schedulePagePreload(getGlobalConfig(), []);
+}
+
+/**
+ * Create embeds for all elements matching the configured selector within a root
+ */
+function upgradeElements(root: ParentNode): void {
   const globalConfig = getGlobalConfig();
-  const elements = document.querySelectorAll<HTMLElement>(globalConfig.selector);
+  const elements = Array.from(root.querySelectorAll<HTMLElement>(globalConfig.selector));
+
+  if (root instanceof HTMLElement && root.matches(globalConfig.selector)) {
+    elements.unshift(root);
+  }
 
   elements.forEach((element) => {
     // Skip if already initialized
@@ -60,39 +91,86 @@ function init(): void {
       allEmbeds.push(embed);
     }
   });
+}
 
-  // Set up MutationObserver for automatic cleanup
-  setupMutationObserver();
+/**
+ * Scan nodes added since the last scan (batched, so large insertions stay cheap)
+ */
+const scanPendingRoots = debounce(() => {
+  const roots = new Set(pendingRoots);
+  pendingRoots.clear();
+
+  for (const root of roots) {
+    // Skip nodes that were removed again or are nested in another scanned root
+    if (!root.isConnected || hasAncestorIn(root, roots)) {
+      continue;
+    }
+    upgradeElements(root);
+  }
+}, SCAN_DEBOUNCE_MS);
+
+/**
+ * Check whether any ancestor of an element is in the given set
+ */
+function hasAncestorIn(element: HTMLElement, elements: Set<HTMLElement>): boolean {
+  for (let parent = element.parentElement; parent; parent = parent.parentElement) {
+    if (elements.has(parent)) return true;
+  }
+  return false;
+}
+
+/**
+ * Destroy the embed rendered into a container, if any
+ */
+function destroyEmbed(container: HTMLElement): void {
+  const embed = embedInstances.get(container);
+  if (embed && !embed.isDestroyed()) {
+    embed.destroy();
+    const index = allEmbeds.indexOf(embed);
+    if (index > -1) {
+      allEmbeds.splice(index, 1);
+    }
+  }
 }
 
 /**
- * Setup MutationObserver to detect removed embeds
+ * Setup MutationObserver to destroy removed embeds and upgrade added elements
  */
 function setupMutationObserver(): void {
-  if (typeof window === 'undefined' || !window.MutationObserver) {
+  if (typeof window === 'undefined' || !window.MutationObserver || mutationObserver) {
     return;
   }
 
-  const observer = new MutationObserver((mutations) => {
+  mutationObserver = new MutationObserver((mutations) => {
+    const observeAddedNodes = getGlobalConfig().observeDOM;
+
     for (const mutation of mutations) {
-      if (mutation.type === 'childList' && mutation.removedNodes.length > 0) {
-        mutation.removedNodes.forEach((node) => {
-          if (node instanceof HTMLElement) {
-            const embed = embedInstances.get(node);
-            if (embed && !embed.isDestroyed()) {
-              embed.destroy();
-              const index = allEmbeds.indexOf(embed);
-              if (index > -1) {
-                allEmbeds.splice(index, 1);
-              }
-            }
+      if (mutation.type !== 'childList') continue;
+
+      mutation.removedNodes.forEach((node) => {
+        if (node instanceof HTMLElement) {
+          // Embeds are removed along with any of their ancestors
+          destroyEmbed(node);
+          node.querySelectorAll<HTMLElement>('.sql-workbench-container').forEach(destroyEmbed);
+        }
+      });
+
+      if (observeAddedNodes) {
+        mutation.addedNodes.forEach((node) => {
+          // Ignore changes inside embeds (e.g. syntax highlighting while typing)
+          if (node instanceof HTMLElement && !node.closest('.sql-workbench-container')) {
+            pendingRoots.add(node);
           }
         });
       }
     }
+
+    if (pendingRoots.size > 0) {
+      scanPendingRoots();
+    }
   });
 
-  observer.observe(document.body, {
+  mutationObserver.observe(document.body, {
     childList: true,
     subtree: true,
   });
@@ -111,12 +189,48 @@ function destroy(): void {
 
   allEmbeds.length = 0;
 
+  // Stop observing the DOM until the next init()
+  mutationObserver?.disconnect();
+  mutationObserver = null;
+  pendingRoots.clear();
+
+  cancelPagePreload();
+
   // Close DuckDB connection
   duckDBManager.close().catch((error) => {
-    console.error('Failed to close DuckDB connection:', error);
+    logger.error('Failed to close DuckDB connection:', error);
   });
 }
 
+/**
+ * Run all cells of a notebook in order
+ */
+function runNotebook(name: string): Promise<void> {
+  const notebook = findNotebook(name);
+  if (!notebook) {
+    return Promise.reject(new Error(`Notebook "${name}" not found`));
+  }
+  return notebook.runAll();
+}
+
+/**
+ * Make in-memory data available to all embeds as a table
+ * Loads DuckDB if needed; registering a table again replaces it
+ */
+function registerTable(name: string, data: TableData, options: RegisterTableOptions = {}): Promise<void> {
+  configureDuckDB(getGlobalConfig());
+  return duckDBManager.registerTable(name, data, options);
+}
+
+/**
+ * Delete the persistent database and start over with an empty one
+ * Open embeds keep their last results; their next query runs against the new database
+ */
+function resetDatabase(): Promise<void> {
+  configureDuckDB(getGlobalConfig());
+  return duckDBManager.resetDatabase();
+}
+
 /**
  * Auto-initialize on DOMContentLoaded if configured
  * Note: This runs at module load time, so users should call config() BEFORE importing
@@ -140,6 +254,14 @@ if (typeof document !== 'undefined') {
   }
 }
 
+/**
+ * Register the <sql-workbench> custom element
+ * Deferred like auto-initialization so that config() calls made right after loading apply
+ */
+if (typeof window !== 'undefined') {
+  setTimeout(() => defineSQLWorkbenchElement(), 0);
+}
+
 // Export public API
 export const SQLWorkbench = {
   Embedded,
@@ -147,6 +269,10 @@ export const SQLWorkbench = {
   destroy,
   config,
   getConfig,
+  defineElement: defineSQLWorkbenchElement,
+  runNotebook,
+  registerTable,
+  resetDatabase,
 };
 
 // Attach to window for UMD builds
@@ -158,5 +284,32 @@ if (typeof window !== 'undefined') {
 export default SQLWorkbench;
 
 // Named exports for tree-shaking
-export { Embedded };
-export type { SQLWorkbenchConfig, EmbeddedOptions, QueryResult } from './types';
+export { Embedded, defineSQLWorkbenchElement };
+export type { SQLWorkbenchElement } from './web-component';
+export type {
+  SQLWorkbenchConfig,
+  EmbeddedOptions,
+  QueryResult,
+  ColumnType,
+  ValueKind,
+  ExportFormat,
+  EmbeddedEventMap,
+  EmbeddedEventName,
+  AutorunMode,
+  CellStatus,
+  IsolationMode,
+  DuckDBBundlesConfig,
+  DuckDBBundleFiles,
+  LogLevel,
+  LogSink,
+  LoggerOptions,
+  PreloadMode,
+  InitStage,
+  InitProgress,
+  ParameterType,
+  ParameterValue,
+  ParameterDefinition,
+  TableFormat,
+  TableData,
+  RegisterTableOptions,
+} from './types';
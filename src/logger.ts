@@ -0,0 +1,54 @@
+/**
+ * Library logger
+ * All output goes through this logger, so that its level and destination can be configured
+ */
+
+import { LogLevel, LogSink, LoggerOptions } from './types';
+
+const LEVEL_SEVERITY: Record<LogLevel, number> = {
+  silent: 0,
+  error: 1,
+  warn: 2,
+  info: 3,
+  debug: 4,
+};
+
+let currentLevel: LogLevel = 'warn';
+// null writes to the console (looked up on each call)
+let currentSink: LogSink | null = null;
+
+/**
+ * Set the log level and, optionally, the sink
+ * A level without a sink writes to the console
+ */
+export function configureLogger(options: LogLevel | LoggerOptions): void {
+  if (typeof options === 'string') {
+    currentLevel = options;
+    currentSink = null;
+    return;
+  }
+
+  currentLevel = options.level ?? 'warn';
+  currentSink = options.sink ?? null;
+}
+
+/**
+ * Get the current log level
+ */
+export function getLogLevel(): LogLevel {
+  return currentLevel;
+}
+
+function write(level: Exclude<LogLevel, 'silent'>, args: unknown[]): void {
+  if (LEVEL_SEVERITY[level] > LEVEL_SEVERITY[currentLevel]) return;
+
+  const sink = currentSink ?? console;
+  sink[level](...args);
+}
+
+export const logger = {
+  error: (...args: unknown[]): void => write('error', args),
+  warn: (...args: unknown[]): void => write('warn', args),
+  info: (...args: unknown[]): void => write('info', args),
+  debug: (...args: unknown[]): void => write('debug', args),
+};
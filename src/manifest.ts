@@ -0,0 +1,120 @@
+/**
+ * File manifests
+ * HTTP servers cannot list directories, so globs in file paths are expanded
+ * against a manifest: the list of files available at the base URL
+ */
+
+import { PathResolutionOptions, resolvePath, getVirtualPath } from './path-resolver';
+
+const GLOB_CHARACTERS = /[*?[]/;
+
+// A '?' after the file extension starts a query string ('data.csv?v=2'), not a glob
+const QUERY_STRING = /(\.[A-Za-z0-9]+)\?[^/]*$/;
+
+// Loaded manifests by URL
+const manifestCache = new Map<string, Promise<string[]>>();
+
+/**
+ * Check whether a path contains glob characters (outside its query string)
+ */
+export function isGlob(path: string): boolean {
+  return GLOB_CHARACTERS.test(path.replace(QUERY_STRING, '$1'));
+}
+
+/**
+ * Split a glob into its leading directory without glob characters and the pattern after it
+ * 'events/year=2023/*.parquet' -> { directory: 'events/year=2023/', pattern: '*.parquet' }
+ */
+export function splitGlob(glob: string): { directory: string; pattern: string } {
+  const first = glob.search(GLOB_CHARACTERS);
+  const slash = first === -1 ? glob.lastIndexOf('/') : glob.lastIndexOf('/', first);
+  return { directory: glob.slice(0, slash + 1), pattern: glob.slice(slash + 1) };
+}
+
+/**
+ * Convert a glob pattern to a regular expression
+ * `*` and `?` match within a path segment, `**` matches across segments and `[...]` is a character class
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i] as string;
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // '**/' also matches no directory at all
+        const slash = pattern[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && pattern.indexOf(']', i + 2) !== -1) {
+      const close = pattern.indexOf(']', i + 2);
+      const negated = pattern[i + 1] === '!' || pattern[i + 1] === '^';
+      const members = pattern.slice(i + (negated ? 2 : 1), close).replace(/\\/g, '\\\\');
+      source += `[${negated ? '^' : ''}${members}]`;
+      i = close;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Load the file paths listed by a manifest (a JSON array of paths)
+ * Manifests are loaded once per URL; failed loads are retried on the next call
+ */
+export function loadManifest(url: string): Promise<string[]> {
+  let pending = manifestCache.get(url);
+  if (!pending) {
+    pending = fetchManifest(url);
+    manifestCache.set(url, pending);
+    pending.catch(() => manifestCache.delete(url));
+  }
+  return pending;
+}
+
+async function fetchManifest(url: string): Promise<string[]> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load manifest ${url}: HTTP ${response.status}`);
+  }
+
+  const files: unknown = await response.json();
+  if (!Array.isArray(files) || !files.every((file) => typeof file === 'string')) {
+    throw new Error(`Invalid manifest ${url}: expected a JSON array of file paths`);
+  }
+  return files;
+}
+
+/**
+ * Expand a glob into the URLs of the matching manifest files
+ * Globs and manifest paths are compared after resolution, so both may be
+ * relative to the base URL, relative to the origin or absolute URLs
+ */
+export function expandGlob(glob: string, files: string[], options: PathResolutionOptions): string[] {
+  const { directory, pattern } = splitGlob(glob);
+  const base = resolvePath(directory, options);
+  const regex = globToRegExp(pattern);
+
+  const urls = files
+    .map((file) => resolvePath(file, options))
+    .filter((url) => url.startsWith(base) && regex.test(url.slice(base.length)));
+
+  return [...new Set(urls)];
+}
+
+/**
+ * Get the glob matching the virtual paths of the files a glob expands to
+ * 'events/*.parquet' -> 'data.sql-workbench.com/events/*.parquet'
+ */
+export function getVirtualGlob(glob: string, options: PathResolutionOptions): string {
+  const { directory, pattern } = splitGlob(glob);
+  return getVirtualPath(resolvePath(directory, options)) + pattern;
+}
@@ -0,0 +1,220 @@
+/**
+ * Notebook mode
+ * Groups embeds into ordered cells that build on each other's DuckDB state:
+ * running a cell first runs the upstream cells that have not run yet (or are stale)
+ */
+
+import { CellStatus } from './types';
+import type { Embedded } from './embedded';
+
+/**
+ * Registration of an embed as a notebook cell
+ * The callbacks give the notebook access to the embed without exposing its internals
+ */
+export interface NotebookCell {
+  embed: Embedded;
+  /** Explicit position (data-cell-order), or null to use document order */
+  order: number | null;
+  /** Run the cell's query on its own */
+  execute: () => Promise<void>;
+  /** Show that the cell could not run because an upstream cell failed */
+  block: (message: string) => void;
+  /** Display the cell's position (1-based) and status */
+  render: (position: number, status: CellStatus) => void;
+}
+
+interface CellRecord extends NotebookCell {
+  /** Code of the last successful run (null if the cell has not run successfully) */
+  ranCode: string | null;
+  /** Set when an upstream cell ran again after this cell */
+  upstreamChanged: boolean;
+}
+
+/**
+ * Compare two elements by their position in the document
+ */
+function compareDocumentOrder(a: HTMLElement | null, b: HTMLElement | null): number {
+  if (!a || !b || a === b) return 0;
+  return a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1;
+}
+
+export class Notebook {
+  readonly name: string;
+  private cells: CellRecord[] = [];
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  /**
+   * Add a cell to the notebook
+   * The cell is removed again when its embed is destroyed
+   */
+  register(cell: NotebookCell): void {
+    const record: CellRecord = { ...cell, ranCode: null, upstreamChanged: false };
+    this.cells.push(record);
+    this.sortCells();
+
+    cell.embed.on('change', () => this.renderCells());
+    cell.embed.on('reset', () => this.renderCells());
+    cell.embed.on('destroy', () => this.unregister(cell.embed));
+
+    this.renderCells();
+  }
+
+  /**
+   * Remove a cell from the notebook
+   */
+  unregister(embed: Embedded): void {
+    this.cells = this.cells.filter((cell) => cell.embed !== embed);
+
+    if (this.cells.length === 0) {
+      notebooks.delete(this.name);
+    } else {
+      this.renderCells();
+    }
+  }
+
+  /**
+   * Get the embeds of all cells in execution order
+   */
+  getCells(): Embedded[] {
+    return this.cells.map((cell) => cell.embed);
+  }
+
+  /**
+   * Get the status of a cell
+   */
+  getStatus(embed: Embedded): CellStatus | null {
+    const cell = this.cells.find((record) => record.embed === embed);
+    return cell ? this.statusOf(cell) : null;
+  }
+
+  /**
+   * Run a cell, first running upstream cells that are not up to date
+   * Runs are queued so that cells never execute concurrently
+   */
+  run(embed: Embedded): Promise<void> {
+    return this.enqueue(() => this.runThrough(embed));
+  }
+
+  /**
+   * Run a cell automatically (autorun), unless it already ran as an upstream cell of another run
+   */
+  autorun(embed: Embedded): Promise<void> {
+    return this.enqueue(async () => {
+      const cell = this.cells.find((record) => record.embed === embed);
+      if (!cell || this.statusOf(cell) === 'ran') return;
+      await this.runThrough(embed);
+    });
+  }
+
+  /**
+   * Run all cells in order, stopping at the first failure
+   */
+  runAll(): Promise<void> {
+    return this.enqueue(async () => {
+      for (const cell of [...this.cells]) {
+        if (!(await this.executeCell(cell))) return;
+      }
+    });
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const next = this.queue.then(task);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async runThrough(embed: Embedded): Promise<void> {
+    const index = this.cells.findIndex((cell) => cell.embed === embed);
+    const target = this.cells[index];
+    if (!target) return;
+
+    for (const [position, cell] of this.cells.slice(0, index).entries()) {
+      if (this.statusOf(cell) === 'ran') continue;
+
+      if (!(await this.executeCell(cell))) {
+        target.block(`Cell ${position + 1} did not run successfully. Fix it and run this cell again.`);
+        return;
+      }
+    }
+
+    await this.executeCell(target);
+  }
+
+  /**
+   * Execute a single cell and update the statuses
+   * Returns whether the cell ran successfully
+   */
+  private async executeCell(cell: CellRecord): Promise<boolean> {
+    if (cell.embed.isDestroyed()) return true;
+
+    const code = cell.embed.getCode();
+    await cell.execute();
+    const succeeded = cell.embed.getState() === 'success';
+
+    if (succeeded) {
+      cell.ranCode = code;
+      cell.upstreamChanged = false;
+
+      // Cells that ran after this one may depend on its previous results
+      const index = this.cells.indexOf(cell);
+      for (const downstream of this.cells.slice(index + 1)) {
+        if (downstream.ranCode !== null) {
+          downstream.upstreamChanged = true;
+        }
+      }
+    } else {
+      cell.ranCode = null;
+    }
+
+    this.renderCells();
+    return succeeded;
+  }
+
+  private statusOf(cell: CellRecord): CellStatus {
+    if (cell.ranCode === null) return 'not-run';
+    if (cell.upstreamChanged || cell.embed.getCode() !== cell.ranCode) return 'stale';
+    return 'ran';
+  }
+
+  /**
+   * Sort cells by explicit order, then by document position
+   * Cells without an explicit order come after ordered cells
+   */
+  private sortCells(): void {
+    this.cells.sort((a, b) => {
+      const orderA = a.order ?? Number.MAX_SAFE_INTEGER;
+      const orderB = b.order ?? Number.MAX_SAFE_INTEGER;
+      if (orderA !== orderB) return orderA - orderB;
+      return compareDocumentOrder(a.embed.getContainer(), b.embed.getContainer());
+    });
+  }
+
+  private renderCells(): void {
+    this.cells.forEach((cell, index) => cell.render(index + 1, this.statusOf(cell)));
+  }
+}
+
+const notebooks = new Map<string, Notebook>();
+
+/**
+ * Get a notebook by name, creating it if needed
+ */
+export function getNotebook(name: string): Notebook {
+  let notebook = notebooks.get(name);
+  if (!notebook) {
+    notebook = new Notebook(name);
+    notebooks.set(name, notebook);
+  }
+  return notebook;
+}
+
+/**
+ * Find an existing notebook by name
+ */
+export function findNotebook(name: string): Notebook | undefined {
+  return notebooks.get(name);
+}
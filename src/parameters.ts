@@ -0,0 +1,123 @@
+/**
+ * Query parameters
+ * Finds named parameters ($name) in SQL and binds them as positional prepared
+ * statement parameters, so that values are never interpolated into the SQL
+ */
+
+import { ParameterDefinition, ParameterType, ParameterValue } from './types';
+import { tokenizeSQL } from './sql-tokenizer';
+
+// Named parameters only; positional parameters ($1, ?) are left to DuckDB
+const NAMED_PARAMETER = /^\$[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * SQL with positional parameters ($1, $2, ...) and the values to bind to them
+ */
+export interface BoundQuery {
+  sql: string;
+  params: ParameterValue[];
+}
+
+function parameterName(text: string): string | null {
+  return NAMED_PARAMETER.test(text) ? text.slice(1) : null;
+}
+
+/**
+ * Find the named parameters of a query, in order of first use
+ * Parameters inside strings, quoted identifiers and comments are ignored
+ */
+export function findParameters(sql: string): string[] {
+  const names: string[] = [];
+
+  for (const token of tokenizeSQL(sql)) {
+    const name = token.type === 'parameter' ? parameterName(token.text) : null;
+    if (name !== null && !names.includes(name)) {
+      names.push(name);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Replace named parameters with positional ones and collect their values
+ * A parameter used several times is bound once; SQL without named parameters is returned unchanged.
+ * Named parameters cannot be combined with positional ones, which would take their numbers.
+ */
+export function bindParameters(sql: string, values: Map<string, ParameterValue>): BoundQuery {
+  const names: string[] = [];
+  let positional: string | null = null;
+  let bound = '';
+
+  for (const token of tokenizeSQL(sql)) {
+    const name = token.type === 'parameter' ? parameterName(token.text) : null;
+    if (name === null) {
+      if (token.type === 'parameter') positional ??= token.text;
+      bound += token.text;
+      continue;
+    }
+
+    if (!values.has(name)) {
+      throw new Error(`No value for parameter $${name}`);
+    }
+
+    let index = names.indexOf(name);
+    if (index === -1) {
+      index = names.push(name) - 1;
+    }
+    bound += `$${index + 1}`;
+  }
+
+  if (names.length === 0) {
+    return { sql, params: [] };
+  }
+
+  if (positional !== null) {
+    throw new Error(`Cannot mix positional parameter ${positional} with named parameters ($${names[0]})`);
+  }
+
+  return { sql: bound, params: names.map((name) => values.get(name) ?? null) };
+}
+
+/**
+ * Get the control type of a parameter
+ */
+export function getParameterType(definition: ParameterDefinition): ParameterType {
+  return definition.type ?? (definition.options?.length ? 'select' : 'text');
+}
+
+/**
+ * Get the initial value of a parameter
+ */
+export function getInitialValue(definition: ParameterDefinition): ParameterValue {
+  if (definition.value !== undefined) return definition.value;
+
+  switch (getParameterType(definition)) {
+    case 'select':
+      return definition.options?.[0] ?? null;
+    case 'text':
+      return '';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Convert the value of an input control to a parameter value
+ * Empty number and date inputs are bound as NULL; select options keep their type
+ */
+export function parseInputValue(definition: ParameterDefinition, input: string): ParameterValue {
+  switch (getParameterType(definition)) {
+    case 'number': {
+      if (input.trim() === '') return null;
+      const value = Number(input);
+      return Number.isFinite(value) ? value : null;
+    }
+    case 'date':
+      return input === '' ? null : input;
+    case 'select':
+      return definition.options?.find((option) => String(option) === input) ?? input;
+    default:
+      return input;
+  }
+}
@@ -2,10 +2,162 @@
  * Path resolution utilities for SQL file references
  */
 
+import { SQLToken, tokenizeSQL } from './sql-tokenizer';
+
 export interface PathResolutionOptions {
   baseUrl: string;
 }
 
+/**
+ * How a file is referenced:
+ * - 'table': FROM 'file.csv' or JOIN 'file.csv'
+ * - 'function': first argument of read_csv('file.csv') and similar functions
+ * - 'copy': COPY t FROM 'file.csv'
+ * - 'attach': ATTACH 'file.duckdb'
+ */
+export type FileReferenceKind = 'table' | 'function' | 'copy' | 'attach';
+
+/**
+ * A file referenced by a SQL query
+ */
+export interface FileReference {
+  /** Path as written in the query, without quotes */
+  path: string;
+  kind: FileReferenceKind;
+  /** Start offset of the string literal in the query (inclusive) */
+  start: number;
+  /** End offset of the string literal in the query (exclusive) */
+  end: number;
+}
+
+// Data files and DuckDB database files, optionally compressed and with a query string
+const FILE_PATH = /\.(parquet|csv|tsv|json|jsonl|ndjson|arrow|xlsx|duckdb|db)(\.(gz|zst))?(\?[^#]*)?$/i;
+
+// URL scheme, e.g. 's3://' or 'hf://' (Windows drive letters have no '//')
+const NON_HTTP_SCHEME = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+// Functions reading the files given as their first argument (a path or a list of paths)
+const FILE_FUNCTION = /^(read_\w+|parquet_scan|parquet_metadata|parquet_schema|parquet_file_metadata|parquet_kv_metadata|sniff_csv|st_read)$/i;
+
+// Keywords that start a clause, to tell FROM lists apart from other comma-separated lists
+const CLAUSE_KEYWORDS = new Set([
+  'SELECT', 'FROM', 'JOIN', 'ON', 'USING', 'WHERE', 'GROUP', 'HAVING', 'WINDOW', 'QUALIFY',
+  'ORDER', 'LIMIT', 'OFFSET', 'UNION', 'INTERSECT', 'EXCEPT', 'VALUES', 'SET', 'RETURNING', 'TO',
+]);
+
+interface Scope {
+  /** Closing punctuation of the scope */
+  close: ')' | ']' | null;
+  /** Whether the scope holds the arguments of a file function */
+  fileFunction: boolean;
+  /** Index of the current argument (or list element) */
+  argument: number;
+  /** Last clause keyword in the scope */
+  clause: string | null;
+}
+
+/**
+ * Get the value of a string literal or quoted identifier token
+ * Returns null for other tokens, dollar-quoted and escape strings, and unterminated literals
+ */
+function literalValue(token: SQLToken): string | null {
+  const quote = token.type === 'string' ? "'" : token.type === 'quoted-identifier' ? '"' : null;
+  if (!quote || token.text.length < 2 || !token.text.startsWith(quote) || !token.text.endsWith(quote)) {
+    return null;
+  }
+  return token.text.slice(1, -1).split(quote + quote).join(quote);
+}
+
+/**
+ * Find the files referenced by a SQL query
+ * Only string literals used as a table, as the path argument of a read function,
+ * as the source of COPY or as the database of ATTACH are file references; strings
+ * in comments, expressions and other arguments are ignored. Paths must have a
+ * data or database file extension (.csv, .csv.gz, .parquet, .duckdb, ...), which
+ * may be followed by a query string ('data.csv?v=2').
+ */
+export function extractFileReferences(sql: string): FileReference[] {
+  const references: FileReference[] = [];
+  const scopes: Scope[] = [{ close: null, fileFunction: false, argument: 0, clause: null }];
+  // First keyword of the current statement
+  let statement: string | null = null;
+  let previous: SQLToken | null = null;
+
+  const keyword = (token: SQLToken | null): string | null =>
+    token?.type === 'identifier' ? token.text.toUpperCase() : null;
+
+  const referenceKind = (scope: Scope): FileReferenceKind | null => {
+    const parent = scopes[scopes.length - 2];
+    if (scope.close === ')' && scope.fileFunction && scope.argument === 0) return 'function';
+    if (scope.close === ']' && parent?.fileFunction && parent.argument === 0) return 'function';
+
+    const before = keyword(previous);
+    if (statement === 'ATTACH' && scopes.length === 1) {
+      return before === 'ATTACH' || before === 'DATABASE' || before === 'EXISTS' ? 'attach' : null;
+    }
+    if (before === 'FROM' && statement === 'COPY' && scopes.length === 1) return 'copy';
+    if (before === 'FROM' || before === 'JOIN') return 'table';
+    if (previous?.text === ',' && scope.clause === 'FROM') return 'table';
+    return null;
+  };
+
+  for (const token of tokenizeSQL(sql)) {
+    if (token.type === 'whitespace' || token.type === 'comment') continue;
+
+    const scope = scopes[scopes.length - 1] as Scope;
+    const value = literalValue(token);
+
+    if (value !== null) {
+      const kind = referenceKind(scope);
+      if (kind && FILE_PATH.test(value)) {
+        references.push({ path: value, kind, start: token.start, end: token.end });
+      }
+    } else if (token.type === 'identifier') {
+      const word = token.text.toUpperCase();
+      statement ??= word;
+      if (CLAUSE_KEYWORDS.has(word)) scope.clause = word;
+    } else if (token.type === 'punctuation') {
+      switch (token.text) {
+        case '(':
+          scopes.push({
+            close: ')',
+            fileFunction: previous?.type === 'identifier' && FILE_FUNCTION.test(previous.text),
+            argument: 0,
+            clause: null,
+          });
+          break;
+        case '[':
+          scopes.push({ close: ']', fileFunction: false, argument: 0, clause: null });
+          break;
+        case ')':
+        case ']':
+          if (scopes.length > 1 && scope.close === token.text) scopes.pop();
+          break;
+        case ',':
+          scope.argument++;
+          break;
+        case ';':
+          scopes.splice(1);
+          (scopes[0] as Scope).clause = null;
+          statement = null;
+          break;
+      }
+    }
+
+    previous = token;
+  }
+
+  return references;
+}
+
+/**
+ * Check whether a path is a URL with a scheme other than HTTP(S), such as s3:// or hf://
+ * DuckDB reads these itself, so they are neither resolved nor registered
+ */
+export function hasNonHttpScheme(path: string): boolean {
+  return NON_HTTP_SCHEME.test(path) && !/^https?:\/\//i.test(path);
+}
+
 /**
  * Resolve relative file paths to absolute URLs
  *
@@ -37,32 +189,17 @@ export function resolvePath(path: string, options: PathResolutionOptions): strin
 }
 
 /**
- * Extract file paths from SQL query
- * Looks for patterns like:
+ * Extract file paths from SQL query, without duplicates
+ * Recognizes references like:
  * - FROM 'file.parquet'
  * - FROM "file.parquet"
  * - read_parquet('file.parquet')
- * - read_csv('file.csv')
+ * - read_csv(['a.csv', 'b.csv.gz'])
+ * - COPY t FROM 'file.csv'
+ * - ATTACH 'file.duckdb'
  */
 export function extractFilePaths(sql: string): string[] {
-  const paths: string[] = [];
-
-  // Match single-quoted strings
-  const singleQuoteRegex = /'([^']+\.(parquet|csv|json|arrow))'/gi;
-  let match;
-
-  while ((match = singleQuoteRegex.exec(sql)) !== null) {
-    paths.push(match[1] as string);
-  }
-
-  // Match double-quoted strings
-  const doubleQuoteRegex = /"([^"]+\.(parquet|csv|json|arrow))"/gi;
-
-  while ((match = doubleQuoteRegex.exec(sql)) !== null) {
-    paths.push(match[1] as string);
-  }
-
-  return [...new Set(paths)]; // Remove duplicates
+  return [...new Set(extractFileReferences(sql).map((reference) => reference.path))];
 }
 
 /**
@@ -82,3 +219,57 @@ export function resolvePathsInSQL(
 
   return pathMap;
 }
+
+/**
+ * Short stable hash of a string (32-bit FNV-1a in base 36)
+ */
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Get the name under which a resolved file is registered with DuckDB
+ * The name mirrors the host and path of the URL, so that files with the same
+ * name in different directories or on different hosts do not collide:
+ * 'https://data.sql-workbench.com/2023/data.parquet' -> 'data.sql-workbench.com/2023/data.parquet'
+ * A query string is replaced by its hash before the file extension, so that URLs
+ * differing only in their query (versions, signed URLs) stay separate files:
+ * 'https://example.com/data.csv?v=2' -> 'example.com/data.l40ocn.csv'
+ */
+export function getVirtualPath(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const path = `${parsed.host}${parsed.pathname}`;
+    if (!parsed.search) return path;
+
+    const extension = FILE_PATH.exec(path);
+    const stem = extension ? path.slice(0, extension.index) : path;
+    return `${stem}.${hashString(parsed.search)}${extension?.[0] ?? ''}`;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Replace file references in SQL with other paths (e.g. their virtual paths)
+ * References without a replacement are left unchanged
+ */
+export function rewriteFilePaths(sql: string, paths: Map<string, string>): string {
+  let rewritten = sql;
+
+  // Replace from the end so that earlier offsets stay valid
+  for (const reference of extractFileReferences(sql).reverse()) {
+    const path = paths.get(reference.path);
+    if (path === undefined) continue;
+
+    const literal = `'${path.replace(/'/g, "''")}'`;
+    rewritten = rewritten.slice(0, reference.start) + literal + rewritten.slice(reference.end);
+  }
+
+  return rewritten;
+}
@@ -0,0 +1,112 @@
+/**
+ * Database persistence
+ * Keeps the DuckDB database file in the Origin Private File System, or in
+ * IndexedDB in browsers without OPFS, so that tables survive page reloads
+ */
+
+/**
+ * Storage backing a persistent database
+ * With OPFS, DuckDB reads and writes the file directly; with IndexedDB,
+ * the file is loaded on initialization and saved after changes
+ */
+export type PersistenceStorage = 'opfs' | 'indexeddb';
+
+// Database name used when persistence is enabled with `true`
+const DEFAULT_DATABASE_NAME = 'sql-workbench';
+
+const IDB_NAME = 'sql-workbench';
+const IDB_STORE = 'databases';
+
+/**
+ * Get the name of the persistent database (null for an in-memory database)
+ */
+export function getDatabaseName(persistence: boolean | string): string | null {
+  if (persistence === true) return DEFAULT_DATABASE_NAME;
+  return persistence ? persistence : null;
+}
+
+/**
+ * Get the file name of a persistent database
+ */
+export function getDatabaseFile(name: string): string {
+  return `${name}.duckdb`;
+}
+
+/**
+ * Detect the best available storage (null if the browser supports neither)
+ */
+export function detectStorage(): PersistenceStorage | null {
+  if (typeof navigator !== 'undefined' && typeof navigator.storage?.getDirectory === 'function') {
+    return 'opfs';
+  }
+  if (typeof indexedDB !== 'undefined') {
+    return 'indexeddb';
+  }
+  return null;
+}
+
+/**
+ * Delete a database file and its write-ahead log from OPFS
+ */
+export async function removeFromOPFS(name: string): Promise<void> {
+  const directory = await navigator.storage.getDirectory();
+
+  for (const file of [getDatabaseFile(name), `${getDatabaseFile(name)}.wal`]) {
+    try {
+      await directory.removeEntry(file);
+    } catch (error) {
+      // Nothing to delete
+      if (!(error instanceof DOMException && error.name === 'NotFoundError')) {
+        throw error;
+      }
+    }
+  }
+}
+
+function openIndexedDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(IDB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run a request against the database store
+ */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const database = await openIndexedDB();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(database.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    database.close();
+  }
+}
+
+/**
+ * Load a database file saved in IndexedDB (null if none was saved)
+ */
+export async function loadFromIndexedDB(name: string): Promise<Uint8Array | null> {
+  const value: unknown = await withStore('readonly', (store) => store.get(name));
+  return value instanceof Uint8Array ? value : null;
+}
+
+/**
+ * Save a database file to IndexedDB
+ */
+export async function saveToIndexedDB(name: string, contents: Uint8Array): Promise<void> {
+  await withStore('readwrite', (store) => store.put(contents, name));
+}
+
+/**
+ * Delete a database file saved in IndexedDB
+ */
+export async function removeFromIndexedDB(name: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(name));
+}
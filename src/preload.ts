@@ -0,0 +1,125 @@
+/**
+ * DuckDB preloading
+ * Starts loading DuckDB before the first query, so that the first run does not wait for the download
+ */
+
+import { SQLWorkbenchConfig } from './types';
+import { duckDBManager } from './duckdb-manager';
+import { logger } from './logger';
+import { getDatabaseName } from './persistence';
+
+type DuckDBOptions = Pick<
+  Required<SQLWorkbenchConfig>,
+  'duckdbVersion' | 'duckdbCDN' | 'duckdbBundles' | 'initQueries' | 'persistence'
+>;
+
+type PreloadOptions = DuckDBOptions & Pick<Required<SQLWorkbenchConfig>, 'preload'>;
+
+// Delay before preloading in browsers without requestIdleCallback
+const IDLE_FALLBACK_DELAY = 1000;
+
+// Cancel functions of the preloads scheduled for the page (null until one is scheduled)
+let pagePreloads: (() => void)[] | null = null;
+
+/**
+ * Pass the DuckDB options to the manager (no effect once DuckDB is initialized)
+ */
+export function configureDuckDB(options: DuckDBOptions): void {
+  if (duckDBManager.isInitialized()) return;
+
+  duckDBManager.configure({
+    version: options.duckdbVersion,
+    cdn: options.duckdbCDN,
+    bundles: options.duckdbBundles,
+    persistence: getDatabaseName(options.persistence),
+  });
+
+  // Configure init queries from global config
+  if (options.initQueries && options.initQueries.length > 0) {
+    duckDBManager.configureInitQueries(options.initQueries);
+  }
+}
+
+/**
+ * Load DuckDB and run the init queries now
+ * Failures are logged; the first query then retries the initialization
+ */
+export async function preloadDuckDB(options: DuckDBOptions): Promise<void> {
+  configureDuckDB(options);
+
+  try {
+    await duckDBManager.preload();
+  } catch (error) {
+    logger.warn('Failed to preload DuckDB:', error);
+  }
+}
+
+/**
+ * Schedule preloading according to the preload option
+ * Returns a function that cancels a preload that has not started yet
+ */
+export function schedulePreload(options: PreloadOptions, targets: HTMLElement[]): () => void {
+  const start = (): void => {
+    void preloadDuckDB(options);
+  };
+
+  switch (options.preload) {
+    case 'immediate':
+      start();
+      return () => undefined;
+
+    case 'idle': {
+      if (typeof requestIdleCallback === 'function') {
+        const id = requestIdleCallback(start);
+        return () => cancelIdleCallback(id);
+      }
+      const id = setTimeout(start, IDLE_FALLBACK_DELAY);
+      return () => clearTimeout(id);
+    }
+
+    case 'visible': {
+      // Without IntersectionObserver support, preload right away
+      if (typeof IntersectionObserver === 'undefined') {
+        start();
+        return () => undefined;
+      }
+
+      if (targets.length === 0) return () => undefined;
+
+      const observer = new IntersectionObserver((entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          observer.disconnect();
+          start();
+        }
+      });
+      targets.forEach((target) => observer.observe(target));
+      return () => observer.disconnect();
+    }
+
+    default:
+      return () => undefined;
+  }
+}
+
+/**
+ * Schedule preloading for the page, once
+ * Called by init() and by every embed, so that pages with only <sql-workbench> elements
+ * or directly created embeds preload too. In 'visible' mode, later embeds are observed as well.
+ */
+export function schedulePagePreload(options: PreloadOptions, targets: HTMLElement[]): void {
+  // Nothing is scheduled without preloading, so that enabling it later still takes effect
+  if (options.preload === 'none') return;
+  if (pagePreloads && (options.preload !== 'visible' || targets.length === 0)) return;
+
+  pagePreloads ??= [];
+  pagePreloads.push(schedulePreload(options, targets));
+}
+
+/**
+ * Cancel the preloads scheduled for the page that have not started yet
+ * The next schedulePagePreload() schedules again
+ */
+export function cancelPagePreload(): void {
+  pagePreloads?.forEach((cancel) => cancel());
+  pagePreloads = null;
+}
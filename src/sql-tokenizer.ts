@@ -0,0 +1,218 @@
+/**
+ * Lightweight SQL tokenizer and statement splitter
+ * Understands string literals, quoted identifiers, comments and dollar-quoting
+ */
+
+export type SQLTokenType =
+  | 'whitespace'
+  | 'comment'
+  | 'string'
+  | 'identifier'
+  | 'quoted-identifier'
+  | 'number'
+  | 'parameter'
+  | 'operator'
+  | 'punctuation';
+
+export interface SQLToken {
+  /** Token type */
+  type: SQLTokenType;
+  /** Raw token text as it appears in the source */
+  text: string;
+  /** Start offset in the source (inclusive) */
+  start: number;
+  /** End offset in the source (exclusive) */
+  end: number;
+}
+
+export interface SQLStatement {
+  /** Statement text without the terminating semicolon */
+  sql: string;
+  /** Start offset in the source (inclusive) */
+  start: number;
+  /** End offset in the source (exclusive) */
+  end: number;
+}
+
+const PUNCTUATION = new Set([';', '(', ')', ',', '[', ']', '{', '}', '.']);
+
+/**
+ * Read a dollar-quote tag ($$ or $tag$) starting at position i
+ * Returns the tag or null if the position does not start a dollar quote
+ */
+function readDollarTag(sql: string, i: number): string | null {
+  const match = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i, i + 64));
+  return match ? match[0] : null;
+}
+
+/**
+ * Split SQL into tokens
+ * Unterminated strings and comments extend to the end of the input
+ */
+export function tokenizeSQL(sql: string): SQLToken[] {
+  const tokens: SQLToken[] = [];
+  let i = 0;
+
+  const push = (type: SQLTokenType, start: number, end: number) => {
+    tokens.push({ type, text: sql.substring(start, end), start, end });
+  };
+
+  while (i < sql.length) {
+    const char = sql[i] as string;
+    const next = sql[i + 1];
+    const start = i;
+
+    // Whitespace
+    if (/\s/.test(char)) {
+      while (i < sql.length && /\s/.test(sql[i] as string)) i++;
+      push('whitespace', start, i);
+      continue;
+    }
+
+    // Single-line comment
+    if (char === '-' && next === '-') {
+      while (i < sql.length && sql[i] !== '\n') i++;
+      push('comment', start, i);
+      continue;
+    }
+
+    // Multi-line comment
+    if (char === '/' && next === '*') {
+      const close = sql.indexOf('*/', i + 2);
+      i = close === -1 ? sql.length : close + 2;
+      push('comment', start, i);
+      continue;
+    }
+
+    // String literal, with '' as escaped quote (and backslash escapes for E'...')
+    if (char === "'" || ((char === 'E' || char === 'e') && next === "'")) {
+      const backslashEscapes = char !== "'";
+      i += backslashEscapes ? 2 : 1;
+      while (i < sql.length) {
+        if (backslashEscapes && sql[i] === '\\') {
+          i += 2;
+          continue;
+        }
+        if (sql[i] === "'") {
+          if (sql[i + 1] === "'") {
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        i++;
+      }
+      push('string', start, Math.min(i, sql.length));
+      continue;
+    }
+
+    // Quoted identifier, with "" as escaped quote
+    if (char === '"') {
+      i++;
+      while (i < sql.length) {
+        if (sql[i] === '"') {
+          if (sql[i + 1] === '"') {
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        i++;
+      }
+      push('quoted-identifier', start, i);
+      continue;
+    }
+
+    // Dollar-quoted string ($$...$$ or $tag$...$tag$) or parameter ($1, $name)
+    if (char === '$') {
+      const tag = readDollarTag(sql, i);
+      if (tag) {
+        const close = sql.indexOf(tag, i + tag.length);
+        i = close === -1 ? sql.length : close + tag.length;
+        push('string', start, i);
+        continue;
+      }
+      i++;
+      while (i < sql.length && /[A-Za-z0-9_]/.test(sql[i] as string)) i++;
+      push(i - start > 1 ? 'parameter' : 'operator', start, i);
+      continue;
+    }
+
+    // Positional parameter
+    if (char === '?') {
+      i++;
+      push('parameter', start, i);
+      continue;
+    }
+
+    // Numbers
+    if (/\d/.test(char) || (char === '.' && next !== undefined && /\d/.test(next))) {
+      while (i < sql.length && /[\d.eE_]/.test(sql[i] as string)) i++;
+      push('number', start, i);
+      continue;
+    }
+
+    // Identifiers and keywords
+    if (/[A-Za-z_\u0080-\uffff]/.test(char)) {
+      while (i < sql.length && /[A-Za-z0-9_$\u0080-\uffff]/.test(sql[i] as string)) i++;
+      push('identifier', start, i);
+      continue;
+    }
+
+    if (PUNCTUATION.has(char)) {
+      i++;
+      push('punctuation', start, i);
+      continue;
+    }
+
+    // Everything else is an operator, grouping consecutive operator characters
+    i++;
+    while (i < sql.length && /[+\-*/<>=!~^&|%@#:]/.test(sql[i] as string)) {
+      if (sql[i] === '-' && sql[i + 1] === '-') break;
+      if (sql[i] === '/' && sql[i + 1] === '*') break;
+      i++;
+    }
+    push('operator', start, i);
+  }
+
+  return tokens;
+}
+
+/**
+ * Split a SQL script into individual statements
+ * Semicolons inside strings, quoted identifiers, comments and dollar-quoted
+ * bodies do not terminate a statement. Statements consisting only of
+ * whitespace and comments are dropped.
+ */
+export function splitStatements(sql: string): SQLStatement[] {
+  const statements: SQLStatement[] = [];
+  let current: SQLToken[] = [];
+
+  const flush = () => {
+    const significant = current.filter((token) => token.type !== 'whitespace' && token.type !== 'comment');
+    if (significant.length > 0) {
+      const meaningful = current.filter((token) => token.type !== 'whitespace');
+      const first = meaningful[0] as SQLToken;
+      const last = meaningful[meaningful.length - 1] as SQLToken;
+      statements.push({
+        sql: sql.substring(first.start, last.end),
+        start: first.start,
+        end: last.end,
+      });
+    }
+    current = [];
+  };
+
+  for (const token of tokenizeSQL(sql)) {
+    if (token.type === 'punctuation' && token.text === ';') {
+      flush();
+    } else {
+      current.push(token);
+    }
+  }
+  flush();
+
+  return statements;
+}
@@ -244,6 +244,83 @@ export const CSS_STYLES = `
   background: var(--sw-editor-focus-bg);
 }
 
+.sql-workbench-drop-target {
+  outline: 2px dashed var(--sw-primary-bg);
+  outline-offset: -2px;
+}
+
+.sql-workbench-files {
+  display: flex;
+  align-items: baseline;
+  gap: 0.75rem;
+  padding: 0.5rem 1rem;
+  font-size: var(--sw-metadata-font-size, 12px);
+  color: var(--sw-muted-text);
+  border-top: 1px solid var(--sw-border-color);
+}
+
+.sql-workbench-files-hidden {
+  display: none;
+}
+
+.sql-workbench-file-list {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.25rem 1rem;
+  margin: 0;
+  padding: 0;
+  list-style: none;
+}
+
+.sql-workbench-file {
+  padding: 0;
+  font-family: var(--sw-editor-font-family, 'Monaco', 'Menlo', 'Ubuntu Mono', 'Consolas', monospace);
+  font-size: inherit;
+  color: var(--sw-primary-bg);
+  background: none;
+  border: none;
+  cursor: pointer;
+}
+
+.sql-workbench-file:hover {
+  text-decoration: underline;
+}
+
+.sql-workbench-file-size {
+  margin-left: 0.25rem;
+}
+
+.sql-workbench-parameters {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.5rem 1rem;
+  /* Keep clear of the editor header buttons */
+  padding: 1rem 14rem 0.75rem 1rem;
+  border-bottom: 1px solid var(--sw-border-color);
+}
+
+.sql-workbench-parameters-hidden {
+  display: none;
+}
+
+.sql-workbench-parameter {
+  display: flex;
+  align-items: center;
+  gap: 0.375rem;
+  font-size: var(--sw-metadata-font-size, 12px);
+  color: var(--sw-muted-text);
+}
+
+.sql-workbench-parameter-input {
+  padding: 0.25rem 0.375rem;
+  font-family: inherit;
+  font-size: var(--sw-button-font-size, 13px);
+  color: var(--sw-editor-text);
+  background: var(--sw-bg-color);
+  border: 1px solid var(--sw-border-color);
+  border-radius: 4px;
+}
+
 .sql-workbench-button {
   padding: 0.375rem 0.75rem;
   font-size: var(--sw-button-font-size, 13px);
@@ -264,6 +341,25 @@ export const CSS_STYLES = `
   display: none;
 }
 
+.sql-workbench-cell-status {
+  align-self: center;
+  padding: 0.125rem 0.5rem;
+  font-size: var(--sw-metadata-font-size, 12px);
+  color: var(--sw-muted-text);
+  border: 1px solid var(--sw-border-color);
+  border-radius: 999px;
+  white-space: nowrap;
+}
+
+.sql-workbench-cell-status[data-status="ran"] {
+  color: var(--sw-primary-bg);
+  border-color: var(--sw-primary-bg);
+}
+
+.sql-workbench-cell-status[data-status="stale"] {
+  border-style: dashed;
+}
+
 .sql-workbench-button-primary {
   background: var(--sw-primary-bg);
   color: var(--sw-primary-text);
@@ -273,6 +369,12 @@ export const CSS_STYLES = `
   background: var(--sw-primary-hover);
 }
 
+.sql-workbench-button-stop,
+.sql-workbench-button-stop:hover:not(:disabled) {
+  background: var(--sw-error-border);
+  color: var(--sw-primary-text);
+}
+
 .sql-workbench-button-secondary {
   background: var(--sw-secondary-bg);
   color: var(--sw-secondary-text);
@@ -318,6 +420,28 @@ export const CSS_STYLES = `
   color: var(--sw-muted-text);
 }
 
+.sql-workbench-progress {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.25rem 1rem;
+  margin: 0;
+  padding: 0;
+  list-style: none;
+}
+
+.sql-workbench-progress-step[data-status="done"]::before {
+  content: '\\2713  ';
+}
+
+.sql-workbench-progress-step[data-status="active"] {
+  color: var(--sw-text-color);
+  font-weight: 500;
+}
+
+.sql-workbench-progress-step[data-status="pending"] {
+  opacity: 0.6;
+}
+
 .sql-workbench-spinner {
   width: 16px;
   height: 16px;
@@ -374,6 +498,12 @@ export const CSS_STYLES = `
   border-bottom: 1px solid var(--sw-border-color);
 }
 
+.sql-workbench-result-table td.sql-workbench-cell-nested {
+  font-family: var(--sw-editor-font-family, 'Monaco', 'Menlo', 'Ubuntu Mono', 'Consolas', monospace);
+  white-space: pre-wrap;
+  word-break: break-word;
+}
+
 .sql-workbench-result-table tr:hover {
   background: var(--sw-table-hover);
 }
@@ -388,6 +518,113 @@ export const CSS_STYLES = `
   gap: 1rem;
 }
 
+.sql-workbench-pager {
+  margin-left: auto;
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+}
+
+.sql-workbench-page-button {
+  padding: 0.125rem 0.5rem;
+  font-size: var(--sw-metadata-font-size, 12px);
+}
+
+.sql-workbench-export {
+  position: relative;
+  margin-left: auto;
+}
+
+.sql-workbench-pager + .sql-workbench-export {
+  margin-left: 0;
+}
+
+.sql-workbench-export summary {
+  list-style: none;
+  padding: 0.125rem 0.5rem;
+  font-size: var(--sw-metadata-font-size, 12px);
+}
+
+.sql-workbench-export summary::-webkit-details-marker {
+  display: none;
+}
+
+.sql-workbench-export-menu {
+  position: absolute;
+  right: 0;
+  bottom: calc(100% + 0.25rem);
+  z-index: 10;
+  display: flex;
+  flex-direction: column;
+  min-width: 10rem;
+  padding: 0.25rem 0;
+  background: var(--sw-bg-color);
+  border: 1px solid var(--sw-border-color);
+  border-radius: 4px;
+  box-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
+}
+
+.sql-workbench-export-option {
+  padding: 0.375rem 0.75rem;
+  border: none;
+  background: none;
+  color: var(--sw-text-color);
+  font: inherit;
+  text-align: left;
+  cursor: pointer;
+}
+
+.sql-workbench-export-option:hover {
+  background: var(--sw-table-hover);
+}
+
+.sql-workbench-statements {
+  display: flex;
+  flex-direction: column;
+  gap: 0.5rem;
+}
+
+.sql-workbench-statement {
+  border: 1px solid var(--sw-border-color);
+  border-radius: 4px;
+}
+
+.sql-workbench-statement-summary {
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  padding: 0.375rem 0.5rem;
+  cursor: pointer;
+  background: var(--sw-controls-bg);
+  font-size: var(--sw-metadata-font-size, 12px);
+}
+
+.sql-workbench-statement-index {
+  font-weight: 600;
+  color: var(--sw-muted-text);
+}
+
+.sql-workbench-statement-sql {
+  flex: 1;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  font-family: var(--sw-editor-font-family, 'Monaco', 'Menlo', 'Ubuntu Mono', 'Consolas', monospace);
+}
+
+.sql-workbench-statement-status {
+  color: var(--sw-muted-text);
+  white-space: nowrap;
+}
+
+.sql-workbench-statement-error .sql-workbench-statement-status {
+  color: var(--sw-error-text);
+}
+
+.sql-workbench-statement-body {
+  padding: 0.5rem;
+}
+
 /* Responsive adjustments for mobile */
 @media (max-width: 480px) {
   .sql-workbench-editor-header {
@@ -86,20 +86,49 @@ export interface SQLWorkbenchConfig {
   selector?: string;
   /** Base URL for resolving relative file paths */
   baseUrl?: string;
+  /**
+   * Files available at the base URL, used to expand globs in file paths ('events/*.parquet'):
+   * the URL of a JSON file with an array of paths, or the array of paths
+   */
+  manifest?: string | string[] | null;
   /** Visual theme */
   theme?: 'light' | 'dark' | 'auto' | string;
   /** Custom theme definitions */
   customThemes?: Record<string, CustomTheme>;
   /** Enable automatic initialization on DOMContentLoaded */
   autoInit?: boolean;
+  /** Upgrade matching elements added to the page after init() */
+  observeDOM?: boolean;
+  /**
+   * Log output: a level ('silent', 'error', 'warn', 'info', 'debug'),
+   * or a level and a sink receiving the messages instead of the console
+   */
+  logger?: LogLevel | LoggerOptions;
+  /**
+   * Load DuckDB before the first query: 'immediate' on init(), 'idle' when the browser is idle,
+   * 'visible' when the first embed scrolls into view, 'none' on the first query
+   */
+  preload?: PreloadMode;
   /** DuckDB WASM version to use */
   duckdbVersion?: string;
-  /** CDN URL for DuckDB assets */
+  /** CDN URL for DuckDB assets (files are loaded from `${duckdbCDN}@${duckdbVersion}`) */
   duckdbCDN?: string;
+  /**
+   * Self-hosted DuckDB files, used instead of the CDN: either the URL of a directory
+   * with the contents of the package's dist/ directory, or the URL of each file
+   */
+  duckdbBundles?: string | DuckDBBundlesConfig | null;
+  /**
+   * Keep the database across page reloads, in the Origin Private File System
+   * (or IndexedDB). `true` uses the database "sql-workbench"; a string names the database.
+   */
+  persistence?: boolean | string;
   /** Allow SQL code editing */
   editable?: boolean;
   /** Show "Open in SQL Workbench" button */
   showOpenButton?: boolean;
+  /** Let readers query their own files, added with a file picker or by drag-and-drop */
+  localFiles?: boolean;
   /**
    * Initialization queries to execute once before first user query.
    * Useful for installing/loading DuckDB extensions.
@@ -107,14 +136,219 @@ export interface SQLWorkbenchConfig {
    * Example: ["INSTALL httpfs", "LOAD httpfs"]
    */
   initQueries?: string[];
+  /**
+   * Maximum query execution time in milliseconds.
+   * Queries running longer are cancelled automatically. 0 disables the timeout.
+   */
+  queryTimeout?: number;
+  /**
+   * Maximum number of result rows loaded into the result table.
+   * The total row count is still reported. 0 loads all rows.
+   */
+  maxRows?: number;
+  /** Number of result rows displayed per page */
+  pageSize?: number;
+  /**
+   * Run queries without a click: 'load' runs on initialization,
+   * 'visible' runs the first time the embed scrolls into view.
+   */
+  autorun?: AutorunMode;
+  /**
+   * Database session used by embeds: 'shared' uses one connection for the page,
+   * 'group' gives each notebook its own connection, 'embed' gives each embed its own connection.
+   */
+  isolation?: IsolationMode;
+  /**
+   * Give isolated sessions a private in-memory database, so that tables
+   * created in one session are not visible in others
+   */
+  privateDatabase?: boolean;
+}
+
+/**
+ * WASM module and worker of a DuckDB bundle
+ */
+export interface DuckDBBundleFiles {
+  mainModule: string;
+  mainWorker: string;
+}
+
+/**
+ * Locations of self-hosted DuckDB files
+ * Browsers get the most capable bundle they support (COI > EH > MVP)
+ */
+export interface DuckDBBundlesConfig {
+  /**
+   * URL of an ES module build of @duckdb/duckdb-wasm with its dependencies bundled.
+   * If not set, a pre-loaded window.duckdb or the bundled package is used.
+   */
+  module?: string;
+  /** Baseline bundle (required) */
+  mvp: DuckDBBundleFiles;
+  /** Bundle using WebAssembly exception handling */
+  eh?: DuckDBBundleFiles;
+  /** Multi-threaded bundle for cross-origin isolated pages */
+  coi?: DuckDBBundleFiles & { pthreadWorker: string };
+}
+
+/**
+ * DuckDB preloading mode
+ */
+export type PreloadMode = 'none' | 'idle' | 'visible' | 'immediate';
+
+/**
+ * Stage of DuckDB initialization
+ */
+export type InitStage = 'loading-module' | 'fetching-worker' | 'instantiating' | 'init-queries' | 'ready';
+
+/**
+ * DuckDB initialization progress
+ * loaded/total count bytes while downloading and queries while running init queries
+ */
+export interface InitProgress {
+  stage: InitStage;
+  loaded?: number;
+  total?: number;
 }
 
+/**
+ * Log level (messages of lower severity are discarded)
+ */
+export type LogLevel = 'silent' | 'error' | 'warn' | 'info' | 'debug';
+
+/**
+ * Destination of log messages (console-compatible)
+ */
+export interface LogSink {
+  error(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  debug(...args: unknown[]): void;
+}
+
+/**
+ * Logger configuration
+ */
+export interface LoggerOptions {
+  level?: LogLevel;
+  /** Receives messages instead of the console */
+  sink?: LogSink;
+}
+
+/**
+ * Automatic query execution mode
+ */
+export type AutorunMode = false | 'load' | 'visible';
+
+/**
+ * Database session isolation mode
+ */
+export type IsolationMode = 'shared' | 'group' | 'embed';
+
 /**
  * Per-instance embedded options
  */
 export interface EmbeddedOptions extends SQLWorkbenchConfig {
   /** Initial SQL code (if not extracted from element) */
   initialCode?: string;
+  /**
+   * Name of the notebook this embed is a cell of.
+   * Running a cell first runs the upstream cells of the same notebook that have not run yet.
+   */
+  notebook?: string | null;
+  /** Position of the cell within its notebook (document order if not set) */
+  cellOrder?: number | null;
+  /**
+   * Hidden SQL executed before this embed's query (e.g. creating fixtures).
+   * Each distinct statement runs once per database session.
+   */
+  setupQueries?: string[];
+  /**
+   * Input controls for the query's named parameters ($name), keyed by parameter name.
+   * Parameters used in the SQL without a definition get a text input.
+   */
+  parameters?: Record<string, ParameterDefinition>;
+}
+
+/**
+ * Input control of a query parameter
+ */
+export type ParameterType = 'number' | 'text' | 'date' | 'select';
+
+/**
+ * Value bound to a query parameter (null for an empty number or date input)
+ */
+export type ParameterValue = string | number | null;
+
+/**
+ * Definition of a query parameter's input control
+ */
+export interface ParameterDefinition {
+  /** Control type ('select' if options are given, 'text' otherwise) */
+  type?: ParameterType;
+  /** Label shown next to the control (the parameter name if not set) */
+  label?: string;
+  /** Initial value (the first option for selects) */
+  value?: ParameterValue;
+  /** Choices of a select control */
+  options?: (string | number)[];
+}
+
+/**
+ * Format of data registered as a table
+ */
+export type TableFormat = 'json' | 'arrow';
+
+/**
+ * Data registered as a table: rows (array of objects), columns (object of arrays)
+ * or JSON text for 'json', an Arrow IPC stream for 'arrow'
+ */
+export type TableData = Record<string, unknown>[] | Record<string, unknown[]> | string | Uint8Array | ArrayBuffer;
+
+/**
+ * Options for registering data as a table
+ */
+export interface RegisterTableOptions {
+  /** Data format ('arrow' for binary data, 'json' otherwise, if not set) */
+  format?: TableFormat;
+}
+
+/**
+ * Status of a notebook cell
+ * 'stale' means the cell's code or an upstream cell changed after it ran
+ */
+export type CellStatus = 'not-run' | 'ran' | 'stale';
+
+/**
+ * Category of a result column's values, used for conversion and display
+ */
+export type ValueKind =
+  | 'null'
+  | 'integer'
+  | 'float'
+  | 'decimal'
+  | 'boolean'
+  | 'string'
+  | 'date'
+  | 'time'
+  | 'timestamp'
+  | 'interval'
+  | 'binary'
+  | 'list'
+  | 'struct'
+  | 'map'
+  | 'other';
+
+/**
+ * Column type metadata (derived from the Arrow result schema)
+ */
+export interface ColumnType {
+  /** Column name */
+  name: string;
+  /** DuckDB type name (e.g. BIGINT, DECIMAL(10,2), INTEGER[]) */
+  type: string;
+  /** Value category */
+  kind: ValueKind;
 }
 
 /**
@@ -123,10 +357,30 @@ export interface EmbeddedOptions extends SQLWorkbenchConfig {
 export interface QueryResult {
   /** Column names */
   columns: string[];
-  /** Row data */
+  /** Column type metadata (same order as columns) */
+  columnTypes?: ColumnType[];
+  /** Row data (limited to the configured maxRows) */
   rows: unknown[][];
-  /** Number of rows returned */
+  /** Number of rows returned by the query (the loaded rows only, if truncated) */
   rowCount: number;
+  /** Whether the query returned more rows than maxRows, which were not read */
+  truncated?: boolean;
+  /** Execution time in milliseconds */
+  executionTime: number;
+}
+
+/**
+ * Outcome of a single statement in a multi-statement script
+ */
+export interface StatementResult {
+  /** Statement SQL text */
+  sql: string;
+  /** Execution status (statements after a failure are skipped) */
+  status: 'success' | 'error' | 'skipped';
+  /** Query result (if the statement succeeded) */
+  result?: QueryResult;
+  /** Error message (if the statement failed) */
+  error?: string;
   /** Execution time in milliseconds */
   executionTime: number;
 }
@@ -143,7 +397,33 @@ export interface DuckDBConnection {
 /**
  * UI state for embedded
  */
-export type EmbeddedState = 'idle' | 'loading' | 'success' | 'error';
+export type EmbeddedState = 'idle' | 'loading' | 'success' | 'error' | 'cancelled' | 'timeout';
+
+/**
+ * Result export formats
+ */
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'markdown' | 'clipboard' | 'parquet';
+
+/**
+ * Events emitted by embeds, with their payloads
+ * Each event is also dispatched as a `sql-workbench:<name>` CustomEvent from the container
+ */
+export interface EmbeddedEventMap {
+  /** Query execution started */
+  run: { sql: string };
+  /** Query executed successfully (result of the last statement for scripts) */
+  result: { sql: string; result: QueryResult; statementResults?: StatementResult[] };
+  /** Query failed, was cancelled or timed out */
+  error: { sql: string; message: string; state: 'error' | 'cancelled' | 'timeout'; statementResults?: StatementResult[] };
+  /** Editor was reset to the original code */
+  reset: { sql: string };
+  /** Editor content was changed by the user */
+  change: { sql: string };
+  /** Embed was destroyed */
+  destroy: Record<string, never>;
+}
+
+export type EmbeddedEventName = keyof EmbeddedEventMap;
 
 /**
  * Default configuration values
@@ -151,12 +431,25 @@ export type EmbeddedState = 'idle' | 'loading' | 'success' | 'error';
 export const DEFAULT_CONFIG: Required<SQLWorkbenchConfig> = {
   selector: 'pre.sql-workbench-embedded, .sql-workbench-embedded pre',
   baseUrl: 'https://data.sql-workbench.com',
+  manifest: null,
   theme: 'auto',
   customThemes: {},
   autoInit: true,
+  observeDOM: true,
+  logger: 'warn',
+  preload: 'none',
   duckdbVersion: '1.31.1-dev1.0',
   duckdbCDN: 'https://cdn.jsdelivr.net/npm/@duckdb/duckdb-wasm',
+  duckdbBundles: null,
+  persistence: false,
   editable: true,
   showOpenButton: true,
+  localFiles: false,
   initQueries: [],
+  queryTimeout: 0,
+  maxRows: 10000,
+  pageSize: 100,
+  autorun: false,
+  isolation: 'shared',
+  privateDatabase: false,
 };
@@ -0,0 +1,346 @@
+/**
+ * Type-aware conversion of Arrow values returned by DuckDB
+ * Turns raw Arrow vector values into plain JavaScript values and formats them for display
+ */
+
+import { ColumnType, ValueKind } from './types';
+
+/**
+ * Arrow type ids (see the apache-arrow Type enum)
+ */
+const ArrowType = {
+  Dictionary: -1,
+  Null: 1,
+  Int: 2,
+  Float: 3,
+  Binary: 4,
+  Utf8: 5,
+  Bool: 6,
+  Decimal: 7,
+  Date: 8,
+  Time: 9,
+  Timestamp: 10,
+  Interval: 11,
+  List: 12,
+  Struct: 13,
+  FixedSizeBinary: 15,
+  FixedSizeList: 16,
+  Map: 17,
+  Duration: 18,
+  LargeBinary: 19,
+  LargeUtf8: 20,
+} as const;
+
+/** Arrow time units: SECOND, MILLISECOND, MICROSECOND, NANOSECOND */
+const MICROSECONDS_PER_UNIT = [1_000_000, 1_000, 1, 0.001];
+
+/** Arrow interval unit for (days, milliseconds) pairs */
+const INTERVAL_DAY_TIME = 1;
+
+/**
+ * Minimal view of an Arrow field as exposed by DuckDB result schemas
+ */
+export interface ArrowField {
+  name: string;
+  type: ArrowDataType;
+}
+
+interface ArrowDataType {
+  typeId?: number;
+  bitWidth?: number;
+  isSigned?: boolean;
+  precision?: number;
+  scale?: number;
+  unit?: number;
+  timezone?: string | null;
+  children?: ArrowField[];
+  dictionary?: ArrowDataType;
+  toString(): string;
+}
+
+export type ValueConverter = (value: unknown) => unknown;
+
+const INTEGER_NAMES: Record<number, [string, string]> = {
+  8: ['TINYINT', 'UTINYINT'],
+  16: ['SMALLINT', 'USMALLINT'],
+  32: ['INTEGER', 'UINTEGER'],
+  64: ['BIGINT', 'UBIGINT'],
+};
+
+/**
+ * Determine the value kind of an Arrow data type
+ */
+function getKind(type: ArrowDataType): ValueKind {
+  switch (type.typeId) {
+    case ArrowType.Dictionary:
+      return type.dictionary ? getKind(type.dictionary) : 'other';
+    case ArrowType.Null:
+      return 'null';
+    case ArrowType.Int:
+      return 'integer';
+    case ArrowType.Float:
+      return 'float';
+    case ArrowType.Decimal:
+      return 'decimal';
+    case ArrowType.Bool:
+      return 'boolean';
+    case ArrowType.Utf8:
+    case ArrowType.LargeUtf8:
+      return 'string';
+    case ArrowType.Date:
+      return 'date';
+    case ArrowType.Time:
+      return 'time';
+    case ArrowType.Timestamp:
+      return 'timestamp';
+    case ArrowType.Interval:
+    case ArrowType.Duration:
+      return 'interval';
+    case ArrowType.Binary:
+    case ArrowType.LargeBinary:
+    case ArrowType.FixedSizeBinary:
+      return 'binary';
+    case ArrowType.List:
+    case ArrowType.FixedSizeList:
+      return 'list';
+    case ArrowType.Struct:
+      return 'struct';
+    case ArrowType.Map:
+      return 'map';
+    default:
+      return 'other';
+  }
+}
+
+/**
+ * Get the DuckDB type name for an Arrow data type
+ */
+function getTypeName(type: ArrowDataType): string {
+  const children = type.children ?? [];
+
+  switch (getKind(type)) {
+    case 'null':
+      return 'NULL';
+    case 'integer': {
+      const names = INTEGER_NAMES[type.bitWidth ?? 32];
+      return names ? names[type.isSigned === false ? 1 : 0] : 'INTEGER';
+    }
+    case 'float':
+      return type.precision === 1 ? 'FLOAT' : 'DOUBLE';
+    case 'decimal':
+      return `DECIMAL(${type.precision ?? 18},${type.scale ?? 0})`;
+    case 'boolean':
+      return 'BOOLEAN';
+    case 'string':
+      return 'VARCHAR';
+    case 'date':
+      return 'DATE';
+    case 'time':
+      return 'TIME';
+    case 'timestamp':
+      return type.timezone ? 'TIMESTAMP WITH TIME ZONE' : 'TIMESTAMP';
+    case 'interval':
+      return 'INTERVAL';
+    case 'binary':
+      return 'BLOB';
+    case 'list':
+      return `${children[0] ? getTypeName(children[0].type) : 'NULL'}[]`;
+    case 'struct':
+      return `STRUCT(${children.map((child) => `${child.name} ${getTypeName(child.type)}`).join(', ')})`;
+    case 'map': {
+      const [key, value] = children[0]?.type.children ?? [];
+      return `MAP(${key ? getTypeName(key.type) : 'NULL'}, ${value ? getTypeName(value.type) : 'NULL'})`;
+    }
+    default:
+      return String(type);
+  }
+}
+
+/**
+ * Describe a result column from its Arrow field
+ */
+export function describeColumn(field: ArrowField): ColumnType {
+  return {
+    name: field.name,
+    type: getTypeName(field.type),
+    kind: getKind(field.type),
+  };
+}
+
+/**
+ * Convert a 64-bit integer to a number when it fits, keeping precision otherwise
+ */
+function convertInteger(value: unknown): unknown {
+  if (typeof value !== 'bigint') return value;
+  return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? Number(value)
+    : value;
+}
+
+/**
+ * Apply the decimal scale to an unscaled integer value
+ * Returns a number when it can be represented exactly, a string otherwise
+ */
+function convertDecimal(value: unknown, scale: number): unknown {
+  const raw = String(value);
+  if (!/^-?\d+$/.test(raw)) return value;
+
+  const negative = raw.startsWith('-');
+  const digits = (negative ? raw.slice(1) : raw).padStart(scale + 1, '0');
+  const integerPart = digits.slice(0, digits.length - scale);
+  const fractionPart = scale > 0 ? digits.slice(-scale) : '';
+  const text = `${negative ? '-' : ''}${integerPart}${fractionPart ? `.${fractionPart}` : ''}`;
+
+  return digits.replace(/^0+/, '').length <= 15 ? Number(text) : text;
+}
+
+/**
+ * Convert a time of day in the given Arrow unit to HH:MM:SS[.ffffff]
+ */
+function convertTime(value: unknown, unit: number): unknown {
+  if (typeof value !== 'number' && typeof value !== 'bigint') return value;
+
+  const micros = Math.round(Number(value) * (MICROSECONDS_PER_UNIT[unit] ?? 1));
+  const totalSeconds = Math.floor(micros / 1_000_000);
+  const fraction = micros % 1_000_000;
+  const pad = (n: number) => String(n).padStart(2, '0');
+
+  const time = `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}`;
+  return fraction > 0 ? `${time}.${String(fraction).padStart(6, '0').replace(/0+$/, '')}` : time;
+}
+
+/**
+ * Convert an Arrow interval (pair of 32-bit integers) to a readable string
+ */
+function convertInterval(value: unknown, unit: number | undefined): unknown {
+  if (!(value instanceof Int32Array) || value.length < 2) {
+    return convertInteger(value);
+  }
+
+  const [first = 0, second = 0] = value;
+  const plural = (n: number, label: string) => `${n} ${label}${n === 1 ? '' : 's'}`;
+
+  if (unit === INTERVAL_DAY_TIME) {
+    const parts = first !== 0 ? [plural(first, 'day')] : [];
+    if (second !== 0 || parts.length === 0) {
+      parts.push(convertTime(second, 1) as string);
+    }
+    return parts.join(' ');
+  }
+
+  return `${plural(first, 'year')} ${plural(second, 'month')}`;
+}
+
+/**
+ * Create a converter for values of the given Arrow field
+ */
+export function createValueConverter(field: ArrowField): ValueConverter {
+  return createConverter(field.type);
+}
+
+function createConverter(type: ArrowDataType): ValueConverter {
+  const children = type.children ?? [];
+  const withNull = (convert: ValueConverter): ValueConverter =>
+    (value) => (value === null || value === undefined ? null : convert(value));
+
+  if (type.typeId === ArrowType.Dictionary && type.dictionary) {
+    return createConverter(type.dictionary);
+  }
+
+  switch (getKind(type)) {
+    case 'integer':
+      return withNull(convertInteger);
+    case 'decimal':
+      return withNull((value) => convertDecimal(value, type.scale ?? 0));
+    case 'date':
+    case 'timestamp':
+      return withNull((value) => (typeof value === 'number' ? new Date(value) : value));
+    case 'time':
+      return withNull((value) => convertTime(value, type.unit ?? 2));
+    case 'interval':
+      return withNull((value) => convertInterval(value, type.unit));
+    case 'list': {
+      const convertChild = children[0] ? createConverter(children[0].type) : (value: unknown) => value;
+      return withNull((value) =>
+        Array.from(value as Iterable<unknown>, (item) => convertChild(item))
+      );
+    }
+    case 'struct': {
+      const converters = children.map((child) => [child.name, createConverter(child.type)] as const);
+      return withNull((value) => {
+        const row = value as Record<string, unknown>;
+        const result: Record<string, unknown> = {};
+        for (const [name, convert] of converters) {
+          result[name] = convert(row[name]);
+        }
+        return result;
+      });
+    }
+    case 'map': {
+      const valueField = children[0]?.type.children?.[1];
+      const convertValue = valueField ? createConverter(valueField.type) : (value: unknown) => value;
+      return withNull((value) => {
+        const entries = (value as { toJSON(): Record<string, unknown> }).toJSON();
+        const result: Record<string, unknown> = {};
+        for (const [key, entry] of Object.entries(entries)) {
+          result[key] = convertValue(entry);
+        }
+        return result;
+      });
+    }
+    default:
+      return withNull((value) => value);
+  }
+}
+
+/**
+ * Format a Date as a DuckDB-style date or timestamp string (UTC)
+ */
+function formatDate(value: Date, kind: ValueKind | undefined): string {
+  const iso = value.toISOString();
+  if (kind === 'date') {
+    return iso.slice(0, 10);
+  }
+  return iso.replace('T', ' ').replace(/\.000Z$/, '').replace(/Z$/, '');
+}
+
+/**
+ * Serialize a nested value as JSON-like text
+ */
+function formatNested(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (typeof item === 'bigint') return item.toString();
+    if (item instanceof Uint8Array) return formatBinary(item);
+    return item;
+  }, 0);
+}
+
+/**
+ * Format binary data as an escaped hex string
+ */
+function formatBinary(value: Uint8Array): string {
+  return Array.from(value, (byte) => `\\x${byte.toString(16).padStart(2, '0').toUpperCase()}`).join('');
+}
+
+/**
+ * Format a converted value for display
+ */
+export function formatValue(value: unknown, kind?: ValueKind): string {
+  if (value === null || value === undefined) {
+    return 'NULL';
+  }
+
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? String(value) : formatDate(value, kind);
+  }
+
+  if (value instanceof Uint8Array) {
+    return formatBinary(value);
+  }
+
+  if (typeof value === 'object') {
+    return formatNested(value);
+  }
+
+  return String(value);
+}
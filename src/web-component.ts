@@ -0,0 +1,134 @@
+/**
+ * <sql-workbench> custom element
+ * Wraps an Embedded instance and keeps it in sync with the element's attributes
+ */
+
+import { Embedded } from './embedded';
+import { injectStyles } from './styles';
+import { getGlobalConfig } from './config-store';
+import { parseOptionAttributes, parseSetupScripts, isSetupScript, OPTION_ATTRIBUTES } from './data-attributes';
+
+/**
+ * Public interface of the <sql-workbench> element
+ */
+export interface SQLWorkbenchElement extends HTMLElement {
+  /** The wrapped embed (null while disconnected) */
+  readonly embed: Embedded | null;
+  /** Current SQL code */
+  code: string;
+}
+
+export const DEFAULT_TAG_NAME = 'sql-workbench';
+
+/**
+ * Create the custom element class
+ * Created lazily so that importing the library does not require HTMLElement (e.g. during SSR)
+ */
+function createElementClass(): CustomElementConstructor {
+  return class extends HTMLElement implements SQLWorkbenchElement {
+    static get observedAttributes(): string[] {
+      return OPTION_ATTRIBUTES;
+    }
+
+    private embedInstance: Embedded | null = null;
+    private sql: string | null = null;
+    private setupQueries: string[] | null = null;
+    // Editability set by changing the editable attribute (kept when the embed is recreated)
+    private editable: boolean | undefined;
+
+    get embed(): Embedded | null {
+      return this.embedInstance;
+    }
+
+    get code(): string {
+      return this.embedInstance?.getCode() ?? this.sql ?? '';
+    }
+
+    set code(value: string) {
+      this.sql = value;
+      void this.embedInstance?.setCode(value);
+    }
+
+    connectedCallback(): void {
+      // Children are not parsed yet when the element is upgraded during page load
+      if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', () => this.connectedCallback(), { once: true });
+        return;
+      }
+
+      if (!this.isConnected || this.embedInstance) return;
+
+      injectStyles();
+      this.captureSetupScripts();
+      this.sql ??= this.textContent?.trim() ?? '';
+      this.render();
+    }
+
+    disconnectedCallback(): void {
+      if (!this.embedInstance) return;
+
+      // Keep the code so that the embed can be recreated when the element is moved
+      this.sql = this.embedInstance.getCode();
+      this.embedInstance.destroy();
+      this.embedInstance = null;
+    }
+
+    attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null): void {
+      if (!this.embedInstance || oldValue === newValue) return;
+
+      // Editability can be toggled without recreating the embed; removing the attribute turns it off
+      if (name === 'editable') {
+        const { editable } = parseOptionAttributes(this, '');
+        this.editable = editable ?? false;
+        this.embedInstance.setEditable(this.editable);
+        return;
+      }
+
+      this.sql = this.embedInstance.getCode();
+      this.embedInstance.destroy();
+      this.embedInstance = null;
+      this.render();
+    }
+
+    /**
+     * Move <script type="text/x-sql-setup"> children into the setup queries
+     * so that their SQL is not shown as part of the code
+     */
+    private captureSetupScripts(): void {
+      if (this.setupQueries) return;
+
+      const scripts = Array.from(this.children).filter(isSetupScript);
+      this.setupQueries = parseSetupScripts(scripts);
+      scripts.forEach((script) => script.remove());
+    }
+
+    /**
+     * Create the embed from the current code and attributes
+     * Priority: element attributes > global configuration > defaults
+     */
+    private render(): void {
+      const pre = document.createElement('pre');
+      pre.textContent = this.sql ?? '';
+      this.replaceChildren(pre);
+
+      const attributes = parseOptionAttributes(this, '');
+      this.embedInstance = new Embedded(pre, {
+        ...getGlobalConfig(),
+        ...attributes,
+        editable: attributes.editable ?? this.editable ?? getGlobalConfig().editable,
+        setupQueries: [...(attributes.setupQueries ?? []), ...(this.setupQueries ?? [])],
+      });
+    }
+  };
+}
+
+/**
+ * Register the <sql-workbench> custom element (no-op if already registered or unsupported)
+ */
+export function defineSQLWorkbenchElement(tagName: string = DEFAULT_TAG_NAME): void {
+  if (typeof window === 'undefined' || !window.customElements || window.customElements.get(tagName)) {
+    return;
+  }
+
+  window.customElements.define(tagName, createElementClass());
+}